@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE `Quiz` ADD COLUMN `type` ENUM('MULTIPLE_CHOICE', 'OX', 'CLOZE', 'MULTI_SELECT') NOT NULL DEFAULT 'MULTIPLE_CHOICE',
+    MODIFY `answer` VARCHAR(100) NOT NULL,
+    MODIFY `question1` VARCHAR(255) NULL,
+    MODIFY `question2` VARCHAR(255) NULL,
+    MODIFY `question3` VARCHAR(255) NULL,
+    MODIFY `question4` VARCHAR(255) NULL;
+
+-- AlterTable
+ALTER TABLE `MemberQuiz` MODIFY `memberAnswer` VARCHAR(100) NOT NULL;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE `Quiz` ADD COLUMN `difficulty` ENUM('EASY', 'MEDIUM', 'HARD') NULL,
+    ADD COLUMN `bloomLevel` ENUM('REMEMBER', 'UNDERSTAND', 'APPLY', 'ANALYZE', 'EVALUATE', 'CREATE') NULL,
+    ADD COLUMN `attemptCount` INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN `correctRate` DOUBLE NULL,
+    ADD COLUMN `adjustedCorrectRate` DOUBLE NULL,
+    ADD COLUMN `empiricalDifficulty` ENUM('EASY', 'MEDIUM', 'HARD') NULL,
+    ADD COLUMN `calibratedAt` TIMESTAMP(6) NULL;
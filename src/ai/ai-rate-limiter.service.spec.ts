@@ -0,0 +1,181 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EnvSchema } from 'src/config/validate-env';
+import { RedisService } from 'src/redis/redis.service';
+import { AiRateLimiterService } from './ai-rate-limiter.service';
+import { ModelRoute } from './types/types';
+
+const ROUTE: ModelRoute = { provider: 'gemini', modelId: 'test-model' };
+const BUCKET_KEY = 'ai:rate-limit:gemini:test-model';
+
+/**
+ * rate limiter의 Lua 스크립트(ACQUIRE/SETTLE)와 같은 방식으로 버킷을 갱신하는 `eval`만 구현한 Redis
+ * 현재 시각은 jest의 가짜 타이머를 따릅니다.
+ */
+class FakeRedis {
+  readonly buckets = new Map<
+    string,
+    { requests: number; tokens: number; updatedAt: number }
+  >();
+
+  readonly eval = jest.fn(
+    (script: string, _numKeys: number, key: string, ...args: number[]) =>
+      Promise.resolve(
+        script.includes("redis.call('TIME')")
+          ? this.acquire(key, args[0], args[1], args[2])
+          : this.settle(key, args[0], args[1]),
+      ),
+  );
+
+  private acquire(key: string, rpm: number, tpm: number, cost: number) {
+    const now = Date.now();
+    const state = this.buckets.get(key);
+    const elapsed = Math.max(0, now - (state?.updatedAt ?? now));
+    let requests = Math.min(
+      rpm,
+      (state?.requests ?? rpm) + (elapsed * rpm) / 60000,
+    );
+    let tokens = Math.min(
+      tpm,
+      (state?.tokens ?? tpm) + (elapsed * tpm) / 60000,
+    );
+
+    let wait = 0;
+    if (rpm > 0 && requests < 1) {
+      wait = Math.max(wait, ((1 - requests) * 60000) / rpm);
+    }
+    if (tpm > 0 && tokens < cost) {
+      wait = Math.max(wait, ((cost - tokens) * 60000) / tpm);
+    }
+
+    if (wait === 0) {
+      requests -= 1;
+      tokens -= cost;
+    }
+
+    this.buckets.set(key, { requests, tokens, updatedAt: now });
+    return Math.ceil(wait);
+  }
+
+  private settle(key: string, tpm: number, delta: number) {
+    const state = this.buckets.get(key);
+    if (state) state.tokens = Math.min(tpm, state.tokens - delta);
+    return 0;
+  }
+}
+
+describe('AiRateLimiterService', () => {
+  let redis: FakeRedis;
+
+  const createService = (limits: Record<string, object>) =>
+    new AiRateLimiterService(
+      {
+        get: () => limits,
+      } as unknown as ConfigService<EnvSchema, true>,
+      redis as unknown as RedisService,
+    );
+
+  /** 확보가 끝났는지 확인할 수 있도록 `acquire`의 완료 여부를 기록합니다. */
+  const track = (promise: Promise<void>) => {
+    const state = { done: false };
+    void promise.then(() => (state.done = true));
+    return state;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    redis = new FakeRedis();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('한도가 남아 있으면 기다리지 않고 요청 1건과 예상 토큰 수를 차감한다', async () => {
+    const service = createService({
+      'gemini/test-model': { rpm: 10, tpm: 1000 },
+    });
+
+    await service.acquire(ROUTE, 300);
+
+    expect(redis.eval).toHaveBeenCalledTimes(1);
+    expect(redis.eval).toHaveBeenCalledWith(
+      expect.any(String),
+      1,
+      BUCKET_KEY,
+      10,
+      1000,
+      300,
+    );
+    expect(redis.buckets.get(BUCKET_KEY)).toMatchObject({
+      requests: 9,
+      tokens: 700,
+    });
+  });
+
+  it('요청 한도를 다 쓰면 버킷이 채워질 때까지 기다렸다가 확보한다', async () => {
+    const service = createService({ 'gemini/test-model': { rpm: 2 } });
+
+    await service.acquire(ROUTE, 100);
+    await service.acquire(ROUTE, 100);
+    const third = track(service.acquire(ROUTE, 100));
+
+    // 분당 2건이므로 1건이 채워지려면 30초가 필요
+    await jest.advanceTimersByTimeAsync(29_999);
+    expect(third.done).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(third.done).toBe(true);
+    expect(redis.eval).toHaveBeenCalledTimes(4);
+  });
+
+  it('TPM보다 큰 요청은 TPM만큼만 차감하여 언젠가 확보할 수 있게 한다', async () => {
+    const service = createService({ 'gemini/test-model': { tpm: 1000 } });
+
+    await service.acquire(ROUTE, 5000);
+
+    expect(redis.eval).toHaveBeenCalledWith(
+      expect.any(String),
+      1,
+      BUCKET_KEY,
+      0,
+      1000,
+      1000,
+    );
+  });
+
+  it('실제 사용량이 예상보다 적으면 차이만큼 토큰을 돌려주어 다음 요청이 바로 확보된다', async () => {
+    const service = createService({ 'gemini/test-model': { tpm: 1000 } });
+
+    await service.acquire(ROUTE, 1000);
+    await service.settle(ROUTE, 1000, 200);
+    expect(redis.buckets.get(BUCKET_KEY)?.tokens).toBe(800);
+
+    const next = track(service.acquire(ROUTE, 800));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(next.done).toBe(true);
+  });
+
+  it('실제 사용량이 예상보다 많으면 더 차감하고, 돌려줄 때도 TPM을 넘지 않는다', async () => {
+    const service = createService({ 'gemini/test-model': { tpm: 1000 } });
+
+    await service.acquire(ROUTE, 100);
+    await service.settle(ROUTE, 100, 400);
+    expect(redis.buckets.get(BUCKET_KEY)?.tokens).toBe(600);
+
+    await service.settle(ROUTE, 2000, 0);
+    expect(redis.buckets.get(BUCKET_KEY)?.tokens).toBe(1000);
+  });
+
+  it('한도가 없는 모델은 Redis를 거치지 않는다', async () => {
+    const service = createService({});
+
+    await service.acquire({ provider: 'openai', modelId: 'unknown' }, 100);
+    await service.settle({ provider: 'openai', modelId: 'unknown' }, 100, 50);
+
+    expect(redis.eval).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,162 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DEFAULT_AI_RATE_LIMITS } from 'src/constants/ai-models';
+import { BATCH_OPTIONS } from 'src/constants/batch-options';
+import { RedisService } from 'src/redis/redis.service';
+import { EnvSchema } from '../config/validate-env';
+import { ModelRateLimit, ModelRoute } from './types/types';
+
+/**
+ * 요청 수/토큰 수 두 개의 버킷을 경과 시간만큼 채운 뒤, 둘 다 충분하면 차감합니다.
+ * 부족하면 차감하지 않고 충분해질 때까지 기다려야 하는 시간(ms)을 반환합니다.
+ * 한도가 0인 버킷은 제한하지 않습니다.
+ *
+ * KEYS[1]: 버킷 키, ARGV: rpm, tpm, 필요한 토큰 수
+ */
+const ACQUIRE_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local rpm = tonumber(ARGV[1])
+local tpm = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+
+local state = redis.call('HMGET', KEYS[1], 'requests', 'tokens', 'updatedAt')
+local requests = tonumber(state[1]) or rpm
+local tokens = tonumber(state[2]) or tpm
+local elapsed = math.max(0, now - (tonumber(state[3]) or now))
+
+requests = math.min(rpm, requests + elapsed * rpm / 60000)
+tokens = math.min(tpm, tokens + elapsed * tpm / 60000)
+
+local wait = 0
+if rpm > 0 and requests < 1 then
+  wait = math.max(wait, (1 - requests) * 60000 / rpm)
+end
+if tpm > 0 and tokens < cost then
+  wait = math.max(wait, (cost - tokens) * 60000 / tpm)
+end
+
+if wait == 0 then
+  requests = requests - 1
+  tokens = tokens - cost
+end
+
+redis.call('HSET', KEYS[1], 'requests', requests, 'tokens', tokens, 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], 120000)
+return math.ceil(wait)
+`;
+
+/**
+ * 실제 사용한 토큰 수와 예상치의 차이만큼 토큰 버킷을 보정합니다.
+ *
+ * KEYS[1]: 버킷 키, ARGV: tpm, 보정할 토큰 수 (양수면 추가 차감, 음수면 환급)
+ */
+const SETTLE_SCRIPT = `
+local tokens = tonumber(redis.call('HGET', KEYS[1], 'tokens'))
+if tokens then
+  redis.call('HSET', KEYS[1], 'tokens', math.min(tonumber(ARGV[1]), tokens - tonumber(ARGV[2])))
+end
+return 0
+`;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Provider/모델별 RPM, TPM을 지키기 위한 토큰 버킷 기반 rate limiter입니다.
+ *
+ * @remarks
+ * - 버킷 상태를 Redis에 저장하고 Lua 스크립트로 갱신하므로 여러 worker replica가 같은 한도를 공유합니다.
+ * - 한도에 도달하면 예외를 던지지 않고 버킷이 채워질 때까지 기다린 뒤 다시 시도합니다.
+ * - 호출 전에는 프롬프트 길이로 토큰 수를 추정해 차감하고, 호출 후 실제 사용량으로 보정합니다.
+ * - 한도가 설정되지 않은 모델은 제한하지 않습니다.
+ */
+@Injectable()
+export class AiRateLimiterService {
+  private readonly logger = new Logger(AiRateLimiterService.name);
+
+  private readonly limits: Record<string, ModelRateLimit>;
+
+  constructor(
+    configService: ConfigService<EnvSchema, true>,
+    private readonly redisService: RedisService,
+  ) {
+    this.limits = {
+      ...DEFAULT_AI_RATE_LIMITS,
+      ...configService.get('AI_RATE_LIMITS', { infer: true }),
+    };
+  }
+
+  /**
+   * 입력 길이로 요청의 총 토큰 수(입력 + 출력)를 추정합니다.
+   */
+  estimateTokens(
+    input: string,
+    outputTokens: number = BATCH_OPTIONS.AI_ESTIMATED_OUTPUT_TOKENS,
+  ): number {
+    return (
+      Math.ceil(input.length / BATCH_OPTIONS.AI_CHARS_PER_TOKEN) + outputTokens
+    );
+  }
+
+  /**
+   * 요청 1건과 `estimatedTokens`만큼의 한도를 확보할 때까지 기다립니다.
+   */
+  async acquire(route: ModelRoute, estimatedTokens: number): Promise<void> {
+    const limit = this.getLimit(route);
+    if (!limit) return;
+
+    // 한 번의 요청이 TPM 전체보다 크면 영원히 확보할 수 없으므로 TPM으로 제한
+    const cost = limit.tpm ? Math.min(estimatedTokens, limit.tpm) : 0;
+
+    while (true) {
+      const waitMs = Number(
+        await this.redisService.eval(
+          ACQUIRE_SCRIPT,
+          1,
+          this.getBucketKey(route),
+          limit.rpm ?? 0,
+          limit.tpm ?? 0,
+          cost,
+        ),
+      );
+
+      if (waitMs <= 0) return;
+
+      this.logger.log(
+        `Rate limit reached for ${route.provider}/${route.modelId}, waiting ${waitMs}ms`,
+      );
+      // 여러 호출이 동시에 깨어나 경쟁하지 않도록 약간의 jitter를 더함
+      await sleep(waitMs + Math.random() * 100);
+    }
+  }
+
+  /**
+   * 호출이 끝난 뒤 실제 사용한 토큰 수로 버킷을 보정합니다.
+   */
+  async settle(
+    route: ModelRoute,
+    estimatedTokens: number,
+    actualTokens: number,
+  ): Promise<void> {
+    const limit = this.getLimit(route);
+    if (!limit?.tpm) return;
+
+    const cost = Math.min(estimatedTokens, limit.tpm);
+
+    await this.redisService.eval(
+      SETTLE_SCRIPT,
+      1,
+      this.getBucketKey(route),
+      limit.tpm,
+      actualTokens - cost,
+    );
+  }
+
+  private getLimit({ provider, modelId }: ModelRoute) {
+    return this.limits[`${provider}/${modelId}`];
+  }
+
+  private getBucketKey({ provider, modelId }: ModelRoute) {
+    return `ai:rate-limit:${provider}:${modelId}`;
+  }
+}
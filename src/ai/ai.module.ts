@@ -1,8 +1,13 @@
 import { Module } from '@nestjs/common';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { RedisModule } from 'src/redis/redis.module';
+import { AiRateLimiterService } from './ai-rate-limiter.service';
 import { AiService } from './ai.service';
+import { LlmUsageService } from './llm-usage.service';
 
 @Module({
-  providers: [AiService],
-  exports: [AiService],
+  imports: [PrismaModule, RedisModule],
+  providers: [AiRateLimiterService, AiService, LlmUsageService],
+  exports: [AiService, LlmUsageService],
 })
 export class AiModule {}
@@ -0,0 +1,261 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  APICallError,
+  LanguageModel,
+  LanguageModelUsage,
+  RetryError,
+} from 'ai';
+import { EnvSchema } from 'src/config/validate-env';
+import { DEFAULT_AI_MODELS } from 'src/constants/ai-models';
+import { ERROR_MESSAGE } from 'src/constants/error-message';
+import { RedisService } from 'src/redis/redis.service';
+import z, { ZodObject } from 'zod';
+import { AiRateLimiterService } from './ai-rate-limiter.service';
+import { AiService } from './ai.service';
+import { LlmUsageService } from './llm-usage.service';
+import { AiCallOptions, AiTask, ModelRoute } from './types/types';
+
+const USAGE: LanguageModelUsage = {
+  inputTokens: 100,
+  outputTokens: 50,
+  totalTokens: 150,
+};
+
+const createApiCallError = (statusCode: number, isRetryable: boolean) =>
+  new APICallError({
+    message: `status ${statusCode}`,
+    url: 'https://api.example.com',
+    requestBodyValues: {},
+    statusCode,
+    isRetryable,
+  });
+
+describe('AiService', () => {
+  let acquire: jest.Mock;
+  let record: jest.Mock;
+  let cache: Map<string, string>;
+
+  const createService = (config: Record<string, unknown> = {}) => {
+    const env: Record<string, unknown> = {
+      AI_CACHE_TTL_SECONDS: 3600,
+      AI_PROVIDERS: ['gemini', 'openai', 'grok'],
+      AI_TASK_PROVIDERS: {},
+      AI_MODELS: {},
+      EMBEDDING_PROVIDER: 'gemini',
+      ...config,
+    };
+
+    return new AiService(
+      {
+        get: (key: string) => env[key],
+      } as unknown as ConfigService<EnvSchema, true>,
+      {
+        reserveBudget: () => 0,
+        record,
+      } as unknown as LlmUsageService,
+      {
+        get: (key: string) => Promise.resolve(cache.get(key) ?? null),
+        set: (key: string, value: string) => {
+          cache.set(key, value);
+          return Promise.resolve('OK');
+        },
+      } as unknown as RedisService,
+      {
+        estimateTokens: () => 10,
+        acquire,
+        settle: () => Promise.resolve(),
+      } as unknown as AiRateLimiterService,
+    );
+  };
+
+  const withFailover = (
+    service: AiService,
+    call: (model: LanguageModel) => Promise<unknown>,
+    task: AiTask = 'quiz',
+    options: AiCallOptions = {},
+  ) =>
+    service['withFailover'](
+      task,
+      { prompt: '프롬프트' },
+      options,
+      async () => ({
+        result: await call({} as LanguageModel),
+        usage: USAGE,
+      }),
+    );
+
+  /** `acquire`에 전달된 순서로 시도한 Provider 목록 */
+  const triedProviders = () =>
+    acquire.mock.calls.map(([route]: [ModelRoute]) => route.provider);
+
+  beforeEach(() => {
+    acquire = jest.fn().mockResolvedValue(undefined);
+    record = jest.fn().mockResolvedValue(undefined);
+    cache = new Map();
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Provider failover', () => {
+    it.each([
+      ['429 응답', createApiCallError(429, true)],
+      [
+        'SDK 재시도를 모두 소진한 5xx 응답',
+        new RetryError({
+          message: 'retries exhausted',
+          reason: 'maxRetriesExceeded',
+          errors: [createApiCallError(503, true)],
+        }),
+      ],
+      [
+        '타임아웃',
+        Object.assign(new Error('timed out'), { name: 'TimeoutError' }),
+      ],
+    ])('%s: 다음 Provider로 넘어간다', async (_, error) => {
+      const service = createService();
+      const call = jest
+        .fn()
+        .mockRejectedValueOnce(error)
+        .mockResolvedValueOnce('응답');
+
+      await expect(withFailover(service, call)).resolves.toBe('응답');
+      expect(triedProviders()).toEqual(['gemini', 'openai']);
+      expect(record).toHaveBeenCalledWith(
+        expect.objectContaining({ provider: 'gemini', failed: true }),
+        0,
+      );
+    });
+
+    it.each([
+      ['잘못된 요청(400)', createApiCallError(400, false)],
+      ['인증 실패(401)', createApiCallError(401, false)],
+      ['알 수 없는 오류', new Error('unexpected')],
+    ])('%s: 다음 Provider로 넘어가지 않고 바로 던진다', async (_, error) => {
+      const service = createService();
+      const call = jest.fn().mockRejectedValue(error);
+
+      await expect(withFailover(service, call)).rejects.toBe(error);
+      expect(call).toHaveBeenCalledTimes(1);
+      expect(triedProviders()).toEqual(['gemini']);
+    });
+
+    it('모든 Provider가 실패하면 각 Provider의 오류를 모아 던진다', async () => {
+      const service = createService();
+      const call = jest
+        .fn()
+        .mockRejectedValueOnce(createApiCallError(429, true))
+        .mockRejectedValueOnce(createApiCallError(500, true))
+        .mockRejectedValueOnce(createApiCallError(503, true));
+
+      const result = withFailover(service, call);
+
+      await expect(result).rejects.toThrow(
+        ERROR_MESSAGE.ALL_AI_PROVIDERS_FAILED,
+      );
+      await expect(result).rejects.toThrow(
+        /gemini\/.+: status 429, openai\/.+: status 500, grok\/.+: status 503/,
+      );
+      expect(record).toHaveBeenCalledTimes(3);
+    });
+
+    it('작업별 Provider 순서가 있으면 AI_PROVIDERS 대신 사용한다', async () => {
+      const service = createService({
+        AI_TASK_PROVIDERS: { quiz: ['grok', 'gemini'] },
+      });
+      const call = jest.fn().mockRejectedValue(createApiCallError(429, true));
+
+      await expect(withFailover(service, call, 'quiz')).rejects.toThrow(
+        ERROR_MESSAGE.ALL_AI_PROVIDERS_FAILED,
+      );
+      expect(triedProviders()).toEqual(['grok', 'gemini']);
+
+      acquire.mockClear();
+      await expect(withFailover(service, call, 'article')).rejects.toThrow(
+        ERROR_MESSAGE.ALL_AI_PROVIDERS_FAILED,
+      );
+      expect(triedProviders()).toEqual(['gemini', 'openai', 'grok']);
+    });
+  });
+
+  describe('응답 캐시', () => {
+    it('캐시된 응답이 있으면 모델을 호출하지 않고 반환한다', async () => {
+      const service = createService();
+      const call = jest.fn().mockResolvedValue({ answer: 1 });
+
+      await expect(withFailover(service, call)).resolves.toEqual({
+        answer: 1,
+      });
+      await expect(withFailover(service, call)).resolves.toEqual({
+        answer: 1,
+      });
+
+      expect(call).toHaveBeenCalledTimes(1);
+      expect(acquire).toHaveBeenCalledTimes(1);
+      expect(record).toHaveBeenCalledTimes(1);
+    });
+
+    it('bypassCache면 캐시를 읽지 않고 새 응답으로 덮어쓴다', async () => {
+      const service = createService();
+      const call = jest
+        .fn()
+        .mockResolvedValueOnce('첫 응답')
+        .mockResolvedValueOnce('새 응답');
+
+      await withFailover(service, call);
+      await expect(
+        withFailover(service, call, 'quiz', { bypassCache: true }),
+      ).resolves.toBe('새 응답');
+
+      expect(call).toHaveBeenCalledTimes(2);
+      expect([...cache.values()]).toEqual([JSON.stringify('새 응답')]);
+      await expect(withFailover(service, call)).resolves.toBe('새 응답');
+      expect(call).toHaveBeenCalledTimes(2);
+    });
+
+    it('프롬프트가 같아도 스키마가 바뀌면 다른 키로 캐시한다', async () => {
+      const service = createService();
+      const call = jest
+        .fn<Promise<{ answer: number }>, []>()
+        .mockResolvedValue({ answer: 1 });
+      const request = (schema: ZodObject) =>
+        service['withFailover'](
+          'quiz',
+          { prompt: '프롬프트', schema },
+          {},
+          async () => ({ result: await call(), usage: USAGE }),
+        );
+
+      await request(z.object({ answer: z.int() }));
+      await request(z.object({ answer: z.int() }));
+      await request(z.object({ answer: z.int().describe('정답 번호') }));
+      await request(z.object({ answer: z.int(), reason: z.string() }));
+
+      expect(call).toHaveBeenCalledTimes(3);
+      expect(cache.size).toBe(3);
+    });
+
+    it('작업이 달라도 같은 모델과 요청이면 캐시를 공유하고, 모델이 다르면 공유하지 않는다', async () => {
+      const service = createService({
+        AI_MODELS: { summary: { gemini: 'other-model' } },
+      });
+      const call = jest.fn().mockResolvedValue('응답');
+
+      await withFailover(service, call, 'quiz');
+      await withFailover(service, call, 'article');
+      await withFailover(service, call, 'summary');
+
+      expect(call).toHaveBeenCalledTimes(2);
+      expect(
+        [...cache.keys()].map((key) => key.split(':').slice(0, 4).join(':')),
+      ).toEqual([
+        `ai:response:gemini:${DEFAULT_AI_MODELS.quiz.gemini}`,
+        'ai:response:gemini:other-model',
+      ]);
+    });
+  });
+});
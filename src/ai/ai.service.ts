@@ -1,23 +1,125 @@
 import { google } from '@ai-sdk/google';
 import { openai } from '@ai-sdk/openai';
 import { xai } from '@ai-sdk/xai';
-import { Injectable } from '@nestjs/common';
-import { generateObject, generateText } from 'ai';
-import { ZodObject } from 'zod';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import {
+  APICallError,
+  DeepPartial,
+  embedMany,
+  generateObject,
+  generateText,
+  LanguageModel,
+  LanguageModelUsage,
+  NoObjectGeneratedError,
+  RetryError,
+  streamObject,
+  streamText,
+} from 'ai';
+import { DEFAULT_AI_MODELS, EMBEDDING_MODELS } from 'src/constants/ai-models';
+import { ERROR_MESSAGE } from 'src/constants/error-message';
+import { RedisService } from 'src/redis/redis.service';
+import z, { ZodObject } from 'zod';
 import { $ZodType, $ZodTypeInternals } from 'zod/v4/core';
-import { ModelProvider } from './types/types';
+import { EnvSchema } from '../config/validate-env';
+import { AiRateLimiterService } from './ai-rate-limiter.service';
+import { LlmUsageService } from './llm-usage.service';
+import {
+  AiCallOptions,
+  AiTask,
+  EmbeddingModelProvider,
+  ModelProvider,
+  ModelRoute,
+} from './types/types';
 
+/**
+ * 다른 Provider로 넘어가면 성공할 수 있는 오류인지 판별합니다.
+ * - 429/5xx 등 SDK가 재시도 가능으로 분류한 API 오류와, SDK 재시도를 모두 소진한 오류
+ * - 타임아웃, 스키마에 맞지 않는 응답
+ */
+const isRetryableError = (error: unknown): boolean => {
+  if (RetryError.isInstance(error)) return isRetryableError(error.lastError);
+  if (APICallError.isInstance(error)) return error.isRetryable;
+  if (NoObjectGeneratedError.isInstance(error)) return true;
+
+  return error instanceof Error && error.name === 'TimeoutError';
+};
+
+/**
+ * 작업(article, summary, quiz)별로 모델을 선택하여 호출하는 서비스입니다.
+ *
+ * 작업별로 `AI_TASK_PROVIDERS`(없으면 `AI_PROVIDERS`)에 설정된 순서대로 Provider를 시도하며,
+ * 재시도 가능한 오류가 발생하면 다음 Provider로 넘어갑니다.
+ * 모델 ID는 {@link DEFAULT_AI_MODELS}를 기본으로 `AI_MODELS`로 덮어씁니다.
+ *
+ * 성공한 응답은 모델, 스키마, 프롬프트의 해시를 키로 Redis에 캐시하여
+ * job 재시도나 replay 시 같은 요청을 다시 호출하지 않습니다.
+ */
 @Injectable()
 export class AiService {
-  async generateTextFromAi(modelProvider: ModelProvider, prompt: string) {
-    const model = this.getModel(modelProvider);
+  private readonly logger = new Logger(AiService.name);
+
+  private readonly routes: Record<AiTask, ModelRoute[]>;
+
+  private readonly embeddingRoute: ModelRoute & {
+    provider: EmbeddingModelProvider;
+  };
 
-    const { text } = await generateText({
-      model,
-      prompt,
+  private readonly cacheTtlSeconds: number;
+
+  constructor(
+    configService: ConfigService<EnvSchema, true>,
+    private readonly llmUsageService: LlmUsageService,
+    private readonly redisService: RedisService,
+    private readonly aiRateLimiterService: AiRateLimiterService,
+  ) {
+    this.cacheTtlSeconds = configService.get('AI_CACHE_TTL_SECONDS', {
+      infer: true,
+    });
+
+    const providers = configService.get('AI_PROVIDERS', { infer: true });
+    const taskProviders = configService.get('AI_TASK_PROVIDERS', {
+      infer: true,
     });
+    const overrides = configService.get('AI_MODELS', { infer: true });
+
+    const getRoutes = (task: AiTask) =>
+      (taskProviders[task] ?? providers).map((provider) => ({
+        provider,
+        modelId:
+          overrides[task]?.[provider] ?? DEFAULT_AI_MODELS[task][provider],
+      }));
 
-    return text;
+    this.routes = {
+      article: getRoutes('article'),
+      summary: getRoutes('summary'),
+      quiz: getRoutes('quiz'),
+      'fact-check': getRoutes('fact-check'),
+    };
+
+    const embeddingProvider = configService.get('EMBEDDING_PROVIDER', {
+      infer: true,
+    });
+    this.embeddingRoute = {
+      provider: embeddingProvider,
+      modelId: EMBEDDING_MODELS[embeddingProvider],
+    };
+  }
+
+  async generateTextFromAi(
+    task: AiTask,
+    prompt: string,
+    options: AiCallOptions = {},
+  ) {
+    return this.withFailover(task, { prompt }, options, async (model) => {
+      const { text, usage } = await generateText({
+        model,
+        prompt,
+      });
+
+      return { result: text, usage };
+    });
   }
 
   async generateObjFromAi<
@@ -28,27 +130,316 @@ export class AiService {
         $ZodTypeInternals<unknown, unknown>
       >;
     }>,
-  >(modelProvider: ModelProvider, prompt: string, schema: ZodObject<T>) {
-    const model = this.getModel(modelProvider);
-
-    const { object } = await generateObject({
-      model,
-      schema,
-      prompt,
-      output: 'object',
+  >(
+    task: AiTask,
+    prompt: string,
+    schema: ZodObject<T>,
+    options: AiCallOptions = {},
+  ) {
+    return this.withFailover(
+      task,
+      { prompt, schema },
+      options,
+      async (model) => {
+        const { object, usage } = await generateObject({
+          model,
+          schema,
+          prompt,
+          output: 'object',
+        });
+
+        return { result: object, usage };
+      },
+    );
+  }
+
+  /**
+   * 텍스트를 스트리밍으로 생성하며, 새 조각을 받을 때마다 지금까지 생성된 전체 텍스트로 `onText`를 호출합니다.
+   */
+  async streamTextFromAi(
+    task: AiTask,
+    prompt: string,
+    {
+      onText,
+      ...options
+    }: AiCallOptions & { onText?: (text: string) => void } = {},
+  ) {
+    return this.withFailover(task, { prompt }, options, async (model) => {
+      // 스트림 오류는 onError로만 전달되므로 저장해 두었다가 failover 판단을 위해 다시 던짐
+      let streamError: unknown;
+      const result = streamText({
+        model,
+        prompt,
+        onError: ({ error }) => {
+          streamError = error;
+        },
+      });
+
+      let text = '';
+      for await (const delta of result.textStream) {
+        text += delta;
+        onText?.(text);
+      }
+
+      if (streamError) {
+        throw streamError instanceof Error
+          ? streamError
+          : new Error(ERROR_MESSAGE.AI_STREAM_FAILED, { cause: streamError });
+      }
+
+      return { result: await result.text, usage: await result.usage };
+    });
+  }
+
+  /**
+   * 객체를 스트리밍으로 생성하며, 부분 객체가 갱신될 때마다 `onPartial`을 호출합니다.
+   * 최종 결과는 스키마 검증을 통과한 객체입니다.
+   */
+  async streamObjFromAi<
+    T extends Readonly<{
+      [k: string]: $ZodType<
+        unknown,
+        unknown,
+        $ZodTypeInternals<unknown, unknown>
+      >;
+    }>,
+  >(
+    task: AiTask,
+    prompt: string,
+    schema: ZodObject<T>,
+    {
+      onPartial,
+      ...options
+    }: AiCallOptions & {
+      onPartial?: (partial: DeepPartial<z.infer<ZodObject<T>>>) => void;
+    } = {},
+  ) {
+    return this.withFailover(
+      task,
+      { prompt, schema },
+      options,
+      async (model) => {
+        let streamError: unknown;
+        const result = streamObject({
+          model,
+          schema,
+          prompt,
+          output: 'object',
+          onError: ({ error }) => {
+            streamError = error;
+          },
+        });
+
+        for await (const partial of result.partialObjectStream) {
+          onPartial?.(partial);
+        }
+
+        if (streamError) {
+          throw streamError instanceof Error
+            ? streamError
+            : new Error(ERROR_MESSAGE.AI_STREAM_FAILED, { cause: streamError });
+        }
+
+        return { result: await result.object, usage: await result.usage };
+      },
+    );
+  }
+
+  async embedTextsFromAi(values: string[]): Promise<number[][]> {
+    const route = this.embeddingRoute;
+    const estimatedTokens = this.aiRateLimiterService.estimateTokens(
+      values.join(''),
+      0,
+    );
+    const reservedUsd = this.llmUsageService.reserveBudget(
+      route,
+      estimatedTokens,
+      0,
+    );
+
+    // rate limit 대기가 실패해도 확보한 예산을 해제하도록 대기도 try 안에서 수행
+    let startedAt = performance.now();
+    let response: Awaited<ReturnType<typeof embedMany>>;
+
+    try {
+      await this.aiRateLimiterService.acquire(route, estimatedTokens);
+      startedAt = performance.now();
+      response = await embedMany({
+        model:
+          route.provider === 'gemini'
+            ? google.textEmbedding(route.modelId)
+            : openai.textEmbedding(route.modelId),
+        values,
+      });
+    } catch (error) {
+      await this.llmUsageService.record(
+        {
+          ...route,
+          task: 'embedding',
+          promptTokens: 0,
+          completionTokens: 0,
+          latencyMs: Math.round(performance.now() - startedAt),
+          failed: true,
+        },
+        reservedUsd,
+      );
+      throw error;
+    }
+
+    const { embeddings, usage } = response;
+
+    await this.aiRateLimiterService.settle(
+      route,
+      estimatedTokens,
+      usage.tokens,
+    );
+    await this.llmUsageService.record(
+      {
+        ...route,
+        task: 'embedding',
+        promptTokens: usage.tokens,
+        completionTokens: 0,
+        latencyMs: Math.round(performance.now() - startedAt),
+      },
+      reservedUsd,
+    );
+
+    return embeddings;
+  }
+
+  /**
+   * 작업에 설정된 모델을 순서대로 호출하고, 실패한 시도를 포함한 각 호출의 사용량을 기록합니다.
+   * - 재시도할 수 없는 오류(잘못된 요청, 인증 실패 등)는 다음 Provider로 넘어가지 않고 바로 던집니다.
+   * - 캐시된 응답이 있는 모델은 호출하지 않습니다. `bypassCache`면 캐시를 읽지 않고 새 응답으로 덮어씁니다.
+   * - 호출 전 job 예산에서 예상 비용을 확보하고, 모델의 rate limit 한도를 확보할 때까지 기다립니다.
+   */
+  private async withFailover<R>(
+    task: AiTask,
+    request: { prompt: string; schema?: ZodObject },
+    { bypassCache = false }: AiCallOptions,
+    call: (
+      model: LanguageModel,
+    ) => Promise<{ result: R; usage: LanguageModelUsage }>,
+  ): Promise<R> {
+    const failures: string[] = [];
+
+    // 스키마 설명(describe)이 바뀌어도 새 응답을 받도록 JSON Schema 전체를 키에 포함
+    const requestKey = JSON.stringify({
+      prompt: request.prompt,
+      schema: request.schema ? z.toJSONSchema(request.schema) : null,
     });
+    const estimatedTokens = this.aiRateLimiterService.estimateTokens(
+      request.prompt,
+    );
+    const estimatedPromptTokens = this.aiRateLimiterService.estimateTokens(
+      request.prompt,
+      0,
+    );
+
+    for (const route of this.routes[task]) {
+      const { provider, modelId } = route;
+      const cacheKey = this.getCacheKey(route, requestKey);
+
+      if (!bypassCache) {
+        const cached = await this.redisService.get(cacheKey);
+
+        if (cached) {
+          this.logger.log(
+            `Cache hit for ${task} task (${provider}/${modelId})`,
+          );
+          return JSON.parse(cached) as R;
+        }
+      }
+
+      const reservedUsd = this.llmUsageService.reserveBudget(
+        route,
+        estimatedPromptTokens,
+      );
+
+      // 확보한 예산은 호출 전 단계(rate limit 대기, 모델 생성)에서 실패해도 기록과 함께 해제
+      let startedAt = performance.now();
+      let response: { result: R; usage: LanguageModelUsage };
+
+      try {
+        await this.aiRateLimiterService.acquire(route, estimatedTokens);
+        startedAt = performance.now();
+        response = await call(this.getModel(provider, modelId));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        // 스키마에 맞지 않는 응답은 생성된 토큰만큼 과금되므로 SDK가 알려준 사용량을 기록
+        const usage = NoObjectGeneratedError.isInstance(error)
+          ? error.usage
+          : undefined;
+
+        await this.llmUsageService.record(
+          {
+            ...route,
+            task,
+            promptTokens: usage?.inputTokens ?? 0,
+            completionTokens: usage?.outputTokens ?? 0,
+            latencyMs: Math.round(performance.now() - startedAt),
+            failed: true,
+          },
+          reservedUsd,
+        );
+
+        if (!isRetryableError(error)) throw error;
+
+        this.logger.warn(
+          `${provider}/${modelId} failed for ${task} task, trying next provider: ${message}`,
+        );
+        failures.push(`${provider}/${modelId}: ${message}`);
+        continue;
+      }
+
+      await this.aiRateLimiterService.settle(
+        route,
+        estimatedTokens,
+        response.usage.totalTokens ?? estimatedTokens,
+      );
+      await this.llmUsageService.record(
+        {
+          ...route,
+          task,
+          promptTokens: response.usage.inputTokens ?? 0,
+          completionTokens: response.usage.outputTokens ?? 0,
+          latencyMs: Math.round(performance.now() - startedAt),
+        },
+        reservedUsd,
+      );
+
+      await this.redisService.set(
+        cacheKey,
+        JSON.stringify(response.result),
+        'EX',
+        this.cacheTtlSeconds,
+      );
+
+      return response.result;
+    }
+
+    throw new Error(
+      `${ERROR_MESSAGE.ALL_AI_PROVIDERS_FAILED} (${failures.join(', ')})`,
+    );
+  }
+
+  private getCacheKey({ provider, modelId }: ModelRoute, requestKey: string) {
+    const hash = createHash('sha256').update(requestKey).digest('hex');
 
-    return object;
+    return `ai:response:${provider}:${modelId}:${hash}`;
   }
 
-  private getModel(modelProvider: ModelProvider) {
+  private getModel(
+    modelProvider: ModelProvider,
+    modelId: string,
+  ): LanguageModel {
     switch (modelProvider) {
       case 'gemini':
-        return google('gemini-2.5-flash');
+        return google(modelId);
       case 'openai':
-        return openai('chatgpt-4o-latest');
+        return openai(modelId);
       default:
-        return xai('grok-4');
+        return xai(modelId);
     }
   }
 }
@@ -0,0 +1,154 @@
+import { ConfigService } from '@nestjs/config';
+import { UnrecoverableError } from 'bullmq';
+import { EnvSchema } from 'src/config/validate-env';
+import { ERROR_MESSAGE } from 'src/constants/error-message';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { LlmUsageService } from './llm-usage.service';
+import { LlmUsageRecord, ModelRoute } from './types/types';
+
+const ROUTE: ModelRoute = { provider: 'gemini', modelId: 'test-model' };
+
+/** 1M 토큰당 입력 $1, 출력 $2 */
+const PRICES = { 'test-model': { input: 1, output: 2 } };
+
+const USAGE: LlmUsageRecord = {
+  ...ROUTE,
+  task: 'article',
+  promptTokens: 100_000,
+  completionTokens: 50_000,
+  latencyMs: 10,
+};
+
+describe('LlmUsageService', () => {
+  let create: jest.Mock;
+  let aggregate: jest.Mock;
+
+  const createService = (jobBudgetUsd?: number) => {
+    const config: Record<string, unknown> = {
+      AI_PRICES: PRICES,
+      AI_JOB_BUDGET_USD: jobBudgetUsd,
+    };
+
+    return new LlmUsageService(
+      {
+        get: (key: string) => config[key],
+      } as unknown as ConfigService<EnvSchema, true>,
+      { llmUsage: { create, aggregate } } as unknown as PrismaService,
+    );
+  };
+
+  const context = { keywordId: 1n, jobId: 'job-1' };
+
+  beforeEach(() => {
+    create = jest.fn().mockResolvedValue({});
+    aggregate = jest.fn().mockResolvedValue({ _sum: { costUsd: null } });
+  });
+
+  it('가격표로 비용을 계산하고 job/키워드와 함께 기록한다', async () => {
+    const service = createService();
+
+    await service.runWithContext(context, () => service.record(USAGE));
+
+    expect(create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        model: 'test-model',
+        costUsd: 0.2,
+        failed: false,
+        jobId: 'job-1',
+        keywordId: 1n,
+      }) as unknown,
+    });
+  });
+
+  it('가격이 없는 모델의 비용은 0으로 기록한다', async () => {
+    const service = createService();
+
+    await service.record({ ...USAGE, modelId: 'unknown-model' });
+
+    expect(create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ costUsd: 0 }) as unknown,
+    });
+  });
+
+  it('병렬 호출의 예상 비용을 합쳐 예산을 넘는 호출은 시작하지 않는다', async () => {
+    const service = createService(0.05);
+
+    await service.runWithContext(context, () => {
+      // 100,000 입력 + 0 출력 토큰 = $0.1 이므로 예산의 절반씩 두 번만 확보 가능
+      service.reserveBudget(ROUTE, 20_000, 0);
+      service.reserveBudget(ROUTE, 20_000, 0);
+
+      expect(() => service.reserveBudget(ROUTE, 20_000, 0)).toThrow(
+        ERROR_MESSAGE.AI_JOB_BUDGET_EXCEEDED,
+      );
+      return Promise.resolve();
+    });
+  });
+
+  it('예산 초과는 job을 재시도하지 않도록 UnrecoverableError로 던진다', async () => {
+    const service = createService(0.05);
+
+    await service.runWithContext(context, () => {
+      expect(() => service.reserveBudget(ROUTE, 60_000, 0)).toThrow(
+        UnrecoverableError,
+      );
+      return Promise.resolve();
+    });
+  });
+
+  it('기록한 호출은 확보한 예상 비용 대신 실제 비용으로 예산을 계산한다', async () => {
+    const service = createService(0.05);
+
+    await service.runWithContext(context, async () => {
+      const reservedUsd = service.reserveBudget(ROUTE, 40_000, 0);
+      await service.record(
+        { ...USAGE, promptTokens: 10_000, completionTokens: 0 },
+        reservedUsd,
+      );
+
+      // 실제 비용 $0.01 + 새 예상 비용 $0.04 = $0.05
+      expect(() => service.reserveBudget(ROUTE, 40_000, 0)).not.toThrow();
+    });
+  });
+
+  it('실패한 호출도 사용량을 기록하고 확보한 예산을 해제한다', async () => {
+    const service = createService(0.05);
+
+    await service.runWithContext(context, async () => {
+      const reservedUsd = service.reserveBudget(ROUTE, 50_000, 0);
+      await service.record(
+        { ...USAGE, promptTokens: 0, completionTokens: 0, failed: true },
+        reservedUsd,
+      );
+
+      expect(() => service.reserveBudget(ROUTE, 50_000, 0)).not.toThrow();
+    });
+
+    expect(create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ failed: true, costUsd: 0 }) as unknown,
+    });
+  });
+
+  it('재시도된 job은 DB에 기록된 비용부터 예산을 계산한다', async () => {
+    aggregate.mockResolvedValue({
+      _sum: { costUsd: { toNumber: () => 0.05 } },
+    });
+    const service = createService(0.05);
+
+    await service.runWithContext(context, () => {
+      expect(() => service.reserveBudget(ROUTE, 1, 0)).toThrow(
+        ERROR_MESSAGE.AI_JOB_BUDGET_EXCEEDED,
+      );
+      return Promise.resolve();
+    });
+    expect(aggregate).toHaveBeenCalledWith({
+      where: { jobId: 'job-1' },
+      _sum: { costUsd: true },
+    });
+  });
+
+  it('예산이 없거나 job 컨텍스트 밖이면 예산을 확보하지 않는다', () => {
+    expect(createService().reserveBudget(ROUTE, 1_000_000)).toBe(0);
+    expect(createService(0.01).reserveBudget(ROUTE, 1_000_000)).toBe(0);
+  });
+});
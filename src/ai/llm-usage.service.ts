@@ -0,0 +1,213 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AsyncLocalStorage } from 'async_hooks';
+import { UnrecoverableError } from 'bullmq';
+import { DEFAULT_AI_PRICES } from 'src/constants/ai-models';
+import { BATCH_OPTIONS } from 'src/constants/batch-options';
+import { ERROR_MESSAGE } from 'src/constants/error-message';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { EnvSchema } from '../config/validate-env';
+import {
+  LlmUsageContext,
+  LlmUsageRecord,
+  LlmUsageSummary,
+  ModelPrice,
+  ModelRoute,
+} from './types/types';
+
+type UsageScope = LlmUsageContext & {
+  /** 현재 job에서 지금까지 사용한 비용 (USD) */
+  spentUsd: number;
+  /** 진행 중인 호출이 예산에서 미리 확보한 예상 비용 (USD) */
+  reservedUsd: number;
+};
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+/**
+ * LLM 호출의 토큰 사용량, 지연 시간, 추정 비용을 기록하고 집계하는 서비스입니다.
+ *
+ * @remarks
+ * - `runWithContext`로 실행한 작업 안의 모든 AI 호출은 해당 keywordId/jobId로 기록됩니다.
+ *   (`Promise.all`로 병렬 실행되는 호출도 같은 컨텍스트를 공유합니다.)
+ * - `AI_JOB_BUDGET_USD`가 설정되면 호출마다 예상 비용을 예산에서 미리 확보하고(`reserveBudget`),
+ *   누적 비용과 진행 중인 호출의 예상 비용을 합쳐 예산을 넘는 호출은 시작하지 않고 예외를 던집니다.
+ *   누적 비용은 DB에 기록된 값에서 시작하므로 job이 재시도되어도 예산이 초기화되지 않습니다.
+ * - 실패한 호출도 SDK가 알려준 사용량으로 기록합니다.
+ */
+@Injectable()
+export class LlmUsageService {
+  private readonly logger = new Logger(LlmUsageService.name);
+
+  private readonly scope = new AsyncLocalStorage<UsageScope>();
+
+  private readonly prices: Record<string, ModelPrice>;
+
+  private readonly jobBudgetUsd: number | undefined;
+
+  constructor(
+    configService: ConfigService<EnvSchema, true>,
+    private readonly prismaService: PrismaService,
+  ) {
+    this.prices = {
+      ...DEFAULT_AI_PRICES,
+      ...configService.get('AI_PRICES', { infer: true }),
+    };
+    this.jobBudgetUsd = configService.get('AI_JOB_BUDGET_USD', {
+      infer: true,
+    });
+  }
+
+  async runWithContext<T>(
+    context: LlmUsageContext,
+    task: () => Promise<T>,
+  ): Promise<T> {
+    const spentUsd = context.jobId
+      ? await this.getJobCostUsd(context.jobId)
+      : 0;
+
+    return this.scope.run({ ...context, spentUsd, reservedUsd: 0 }, task);
+  }
+
+  /**
+   * 호출 1회의 예상 비용을 현재 job의 예산에서 확보합니다.
+   * 누적 비용과 진행 중인 호출의 예상 비용을 더해 예산을 넘으면 재시도해도 같은 결과이므로
+   * `UnrecoverableError`를 던져 BullMQ가 job을 재시도하지 않도록 합니다.
+   *
+   * @returns 확보한 예상 비용 (USD). `record`에 전달하면 실제 비용으로 대체됩니다.
+   */
+  reserveBudget(
+    { modelId }: ModelRoute,
+    promptTokens: number,
+    completionTokens: number = BATCH_OPTIONS.AI_ESTIMATED_OUTPUT_TOKENS,
+  ): number {
+    const scope = this.scope.getStore();
+    if (this.jobBudgetUsd === undefined || !scope) return 0;
+
+    const estimatedUsd = this.estimateCost({
+      modelId,
+      promptTokens,
+      completionTokens,
+    });
+    const committedUsd = scope.spentUsd + scope.reservedUsd;
+
+    if (committedUsd + estimatedUsd > this.jobBudgetUsd) {
+      throw new UnrecoverableError(
+        `${ERROR_MESSAGE.AI_JOB_BUDGET_EXCEEDED} (job: ${scope.jobId}, spent: $${scope.spentUsd.toFixed(4)}, reserved: $${(scope.reservedUsd + estimatedUsd).toFixed(4)}, budget: $${this.jobBudgetUsd})`,
+      );
+    }
+
+    scope.reservedUsd += estimatedUsd;
+    return estimatedUsd;
+  }
+
+  /**
+   * 호출의 사용량을 기록합니다. `reservedUsd`만큼 확보했던 예산은 실제 비용으로 대체됩니다.
+   */
+  async record(usage: LlmUsageRecord, reservedUsd = 0): Promise<void> {
+    const scope = this.scope.getStore();
+    const costUsd = this.estimateCost(usage);
+
+    if (scope) {
+      scope.reservedUsd = Math.max(0, scope.reservedUsd - reservedUsd);
+      scope.spentUsd += costUsd;
+    }
+
+    this.logger.log(
+      `${usage.task} ${usage.provider}/${usage.modelId}${usage.failed ? ' (failed)' : ''}: ${usage.promptTokens} prompt + ${usage.completionTokens} completion tokens, ${usage.latencyMs}ms, $${costUsd.toFixed(6)}`,
+    );
+
+    await this.prismaService.llmUsage.create({
+      data: {
+        usageDate: this.getUsageDate(),
+        task: usage.task,
+        provider: usage.provider,
+        model: usage.modelId,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        latencyMs: usage.latencyMs,
+        costUsd,
+        failed: usage.failed ?? false,
+        jobId: scope?.jobId ?? null,
+        keywordId: scope?.keywordId ?? null,
+      },
+    });
+  }
+
+  /**
+   * 기간 내 일자별 사용량을 집계합니다. (`from`, `to` 포함, UTC 기준 일자)
+   */
+  async getDailyUsage(
+    from: Date,
+    to: Date,
+  ): Promise<(LlmUsageSummary & { date: Date })[]> {
+    const groups = await this.prismaService.llmUsage.groupBy({
+      by: ['usageDate'],
+      where: { usageDate: { gte: from, lte: to } },
+      _count: { _all: true },
+      _sum: { promptTokens: true, completionTokens: true, costUsd: true },
+      orderBy: { usageDate: 'asc' },
+    });
+
+    return groups.map(({ usageDate, _count, _sum }) => ({
+      date: usageDate,
+      calls: _count._all,
+      promptTokens: _sum.promptTokens ?? 0,
+      completionTokens: _sum.completionTokens ?? 0,
+      costUsd: _sum.costUsd?.toNumber() ?? 0,
+    }));
+  }
+
+  /**
+   * 키워드 하나의 콘텐츠 생성에 사용된 전체 사용량을 집계합니다.
+   */
+  async getKeywordUsage(keywordId: bigint): Promise<LlmUsageSummary> {
+    const { _count, _sum } = await this.prismaService.llmUsage.aggregate({
+      where: { keywordId },
+      _count: { _all: true },
+      _sum: { promptTokens: true, completionTokens: true, costUsd: true },
+    });
+
+    return {
+      calls: _count._all,
+      promptTokens: _sum.promptTokens ?? 0,
+      completionTokens: _sum.completionTokens ?? 0,
+      costUsd: _sum.costUsd?.toNumber() ?? 0,
+    };
+  }
+
+  /** 사용량을 집계하는 기준 일자 (UTC) */
+  getUsageDate(date = new Date()): Date {
+    return new Date(date.toISOString().slice(0, 10));
+  }
+
+  private async getJobCostUsd(jobId: string): Promise<number> {
+    const { _sum } = await this.prismaService.llmUsage.aggregate({
+      where: { jobId },
+      _sum: { costUsd: true },
+    });
+
+    return _sum.costUsd?.toNumber() ?? 0;
+  }
+
+  private estimateCost({
+    modelId,
+    promptTokens,
+    completionTokens,
+  }: Pick<
+    LlmUsageRecord,
+    'modelId' | 'promptTokens' | 'completionTokens'
+  >): number {
+    const price = this.prices[modelId];
+
+    if (!price) {
+      this.logger.warn(`No price configured for model ${modelId}`);
+      return 0;
+    }
+
+    return (
+      (promptTokens * price.input + completionTokens * price.output) /
+      TOKENS_PER_PRICE_UNIT
+    );
+  }
+}
@@ -1 +1,56 @@
 export type ModelProvider = 'gemini' | 'openai' | 'grok';
+
+export type AiTask = 'article' | 'summary' | 'quiz' | 'fact-check';
+
+/** 임베딩 모델을 제공하는 Provider */
+export type EmbeddingModelProvider = Exclude<ModelProvider, 'grok'>;
+
+/** 작업별, Provider별 모델 ID */
+export type ModelRegistry = Record<AiTask, Record<ModelProvider, string>>;
+
+export type ModelRoute = {
+  provider: ModelProvider;
+  modelId: string;
+};
+
+export type AiCallOptions = {
+  /** 캐시된 응답을 사용하지 않고 새로 생성 (생성된 응답은 캐시에 덮어씀) */
+  bypassCache?: boolean;
+};
+
+/** 분당 요청 수/토큰 수 한도 (설정하지 않은 항목은 제한하지 않음) */
+export type ModelRateLimit = {
+  rpm?: number;
+  tpm?: number;
+};
+
+/** 사용량 기록 단위가 되는 호출 종류 (생성 작업 + 임베딩) */
+export type UsageTask = AiTask | 'embedding';
+
+/** 1M 토큰당 가격 (USD) */
+export type ModelPrice = {
+  input: number;
+  output: number;
+};
+
+/** LLM 사용량을 어느 키워드/job에 귀속시킬지 나타내는 컨텍스트 */
+export type LlmUsageContext = {
+  keywordId: bigint | null;
+  jobId: string | null;
+};
+
+export type LlmUsageRecord = ModelRoute & {
+  task: UsageTask;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  /** 실패한 호출 여부 (실패한 호출도 SDK가 알려준 사용량만큼 비용을 기록) */
+  failed?: boolean;
+};
+
+export type LlmUsageSummary = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+};
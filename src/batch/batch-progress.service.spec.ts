@@ -0,0 +1,101 @@
+import { Logger } from '@nestjs/common';
+import { BatchProgressService } from './batch-progress.service';
+import { BatchProgress } from './types/types';
+
+describe('BatchProgressService', () => {
+  let reports: BatchProgress[];
+  let report: jest.Mock<Promise<void>, [BatchProgress]>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    reports = [];
+    report = jest.fn((progress: BatchProgress) => {
+      reports.push(progress);
+      return Promise.resolve();
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('단계의 시작 진행률에 저장된 아티클 비율을 더한다', async () => {
+    const progress = new BatchProgressService(report);
+
+    await progress.setStage('rank');
+    await progress.startArticles(4);
+    await progress.updateArticle(0, { status: 'saved', articleId: '1' });
+    await progress.updateArticle(1, { status: 'saved', articleId: '2' });
+
+    expect(reports.map(({ stage, percent }) => [stage, percent])).toEqual([
+      ['rank', 20],
+      ['article', 25],
+      ['article', 38],
+      ['article', 50],
+    ]);
+  });
+
+  it('퀴즈 단계는 생성이 끝난 아티클 비율로 계산하고 완료 단계는 100%로 보고한다', async () => {
+    const progress = new BatchProgressService(report);
+
+    await progress.startQuizzes(2);
+    await progress.completeQuiz();
+    await progress.completeQuiz();
+    await progress.setStage('completed');
+
+    expect(reports.map(({ percent }) => percent)).toEqual([75, 88, 100, 100]);
+    expect(reports[2].quizzes).toEqual({ completed: 2, total: 2 });
+  });
+
+  it('잦은 갱신은 intervalMs마다 한 번만 보고하고 주요 변경은 바로 보고한다', async () => {
+    const progress = new BatchProgressService(report, 1000);
+    await progress.startArticles(1);
+
+    await progress.updateArticle(0, { characters: 10 }, false);
+    await progress.updateArticle(0, { characters: 20 }, false);
+    expect(reports).toHaveLength(1);
+
+    jest.advanceTimersByTime(1000);
+    await progress.updateArticle(0, { characters: 30 }, false);
+    expect(reports).toHaveLength(2);
+    expect(reports[1].articles[0].characters).toBe(30);
+
+    await progress.updateArticle(0, { status: 'saved', articleId: '1' });
+    expect(reports).toHaveLength(3);
+  });
+
+  it('앞선 보고가 끝난 뒤 다음 보고를 보내고, 보고 시점의 상태를 전달한다', async () => {
+    const resolvers: (() => void)[] = [];
+    report.mockImplementation((progress) => {
+      reports.push(progress);
+      return new Promise<void>((resolve) => resolvers.push(resolve));
+    });
+    const progress = new BatchProgressService(report);
+
+    const first = progress.setStage('search');
+    const second = progress.setStage('crawl');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(reports.map(({ stage }) => stage)).toEqual(['search']);
+
+    resolvers[0]();
+    await first;
+    await jest.advanceTimersByTimeAsync(0);
+    expect(reports.map(({ stage }) => stage)).toEqual(['search', 'crawl']);
+
+    resolvers[1]();
+    await second;
+  });
+
+  it('보고에 실패해도 예외를 던지지 않고 다음 보고를 보낸다', async () => {
+    const warn = jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    report.mockRejectedValueOnce(new Error('redis down'));
+    const progress = new BatchProgressService(report);
+
+    await expect(progress.setStage('search')).resolves.toBeUndefined();
+    await progress.setStage('crawl');
+
+    expect(report).toHaveBeenCalledTimes(2);
+    expect(warn).toHaveBeenCalledWith('Failed to report progress: redis down');
+    warn.mockRestore();
+  });
+});
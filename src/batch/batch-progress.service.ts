@@ -0,0 +1,125 @@
+import { Logger } from '@nestjs/common';
+import {
+  ArticleProgress,
+  BatchProgress,
+  BatchStage,
+  ProgressReporter,
+} from './types/types';
+
+/** 각 단계가 시작될 때의 진행률 (%) */
+const STAGE_START_PERCENT: Record<BatchStage, number> = {
+  search: 0,
+  crawl: 5,
+  rank: 20,
+  article: 25,
+  quiz: 75,
+  completed: 100,
+};
+
+/**
+ * 콘텐츠 생성 job의 진행 상황을 모아 BullMQ에 보고하는 클래스입니다.
+ *
+ * @remarks
+ * - 단계 전환, 아티클 저장 등 주요 변경은 즉시 보고합니다.
+ * - 스트리밍 중 본문 길이 변경처럼 잦은 갱신은 `intervalMs`마다 한 번만 보고합니다.
+ * - 보고에 실패해도 job은 계속 진행합니다.
+ */
+export class BatchProgressService {
+  private readonly logger = new Logger(BatchProgressService.name);
+
+  private progress: BatchProgress = {
+    stage: 'search',
+    percent: 0,
+    articles: [],
+    quizzes: { completed: 0, total: 0 },
+  };
+
+  private lastReportedAt = 0;
+
+  /** 보고 순서가 뒤바뀌지 않도록 이전 보고가 끝난 뒤 다음 보고를 보냄 */
+  private reporting: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly report: ProgressReporter,
+    private readonly intervalMs: number = 1000,
+  ) {}
+
+  async setStage(stage: BatchStage) {
+    this.progress.stage = stage;
+    await this.flush();
+  }
+
+  async startArticles(count: number) {
+    this.progress.articles = Array.from({ length: count }, (_, index) => ({
+      index,
+      status: 'pending',
+      characters: 0,
+      articleId: null,
+    }));
+    await this.setStage('article');
+  }
+
+  async updateArticle(
+    index: number,
+    patch: Partial<Omit<ArticleProgress, 'index'>>,
+    immediate = true,
+  ) {
+    Object.assign(this.progress.articles[index], patch);
+    await this.flush(immediate);
+  }
+
+  async startQuizzes(total: number) {
+    this.progress.quizzes = { completed: 0, total };
+    await this.setStage('quiz');
+  }
+
+  async completeQuiz() {
+    this.progress.quizzes.completed++;
+    await this.flush();
+  }
+
+  private async flush(immediate = true) {
+    const now = Date.now();
+    if (!immediate && now - this.lastReportedAt < this.intervalMs) return;
+
+    this.lastReportedAt = now;
+    this.progress.percent = this.calculatePercent();
+
+    const snapshot = structuredClone(this.progress);
+    this.reporting = this.reporting
+      .then(() => this.report(snapshot))
+      .catch((error) => {
+        this.logger.warn(
+          `Failed to report progress: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      });
+
+    await this.reporting;
+  }
+
+  /**
+   * 현재 단계의 시작 진행률에 단계 내 완료 비율을 더합니다.
+   * 아티클은 저장된 개수, 퀴즈는 생성이 끝난 아티클 수를 기준으로 계산합니다.
+   */
+  private calculatePercent(): number {
+    const { stage, articles, quizzes } = this.progress;
+    const start = STAGE_START_PERCENT[stage];
+
+    if (stage === 'article' && articles.length > 0) {
+      const saved = articles.filter(({ status }) => status === 'saved').length;
+      return Math.round(
+        start + (STAGE_START_PERCENT.quiz - start) * (saved / articles.length),
+      );
+    }
+
+    if (stage === 'quiz' && quizzes.total > 0) {
+      return Math.round(
+        start +
+          (STAGE_START_PERCENT.completed - start) *
+            (quizzes.completed / quizzes.total),
+      );
+    }
+
+    return start;
+  }
+}
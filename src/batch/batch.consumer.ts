@@ -1,37 +1,100 @@
 import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
 import { Logger } from '@nestjs/common';
 import { Job } from 'bullmq';
+import { LlmUsageService } from 'src/ai/llm-usage.service';
 import { BATCH_OPTIONS } from 'src/constants/batch-options';
 import { BatchService } from './batch.service';
-import { BatchQueueData } from './types/types';
+import { QuizCalibrationService } from './quiz-calibration.service';
+import { BatchQueueData, RegenerateQueueData } from './types/types';
 
 @Processor(BATCH_OPTIONS.QUEUE_NAME)
 export class BatchConsumer extends WorkerHost {
   private readonly logger = new Logger(BatchConsumer.name);
 
-  constructor(private readonly batchService: BatchService) {
+  constructor(
+    private readonly batchService: BatchService,
+    private readonly llmUsageService: LlmUsageService,
+    private readonly quizCalibrationService: QuizCalibrationService,
+  ) {
     super();
   }
 
-  async process(job: Job<BatchQueueData>) {
+  async process(job: Job<BatchQueueData | RegenerateQueueData>) {
     switch (job.name) {
-      case BATCH_OPTIONS.JOB_NAME:
-        await this.batchService.generateContents(BigInt(job.data.keywordId));
+      case BATCH_OPTIONS.JOB_NAME: {
+        const keywordId = BigInt((job.data as BatchQueueData).keywordId);
+
+        // job에서 발생한 AI 호출의 사용량을 keywordId/jobId로 기록
+        await this.llmUsageService.runWithContext(
+          { keywordId, jobId: job.id ?? null },
+          () =>
+            this.batchService.generateContents(keywordId, (progress) =>
+              job.updateProgress(progress),
+            ),
+        );
+        await this.logUsage(keywordId);
+        break;
+      }
+      case BATCH_OPTIONS.REGENERATE_ARTICLE_JOB_NAME:
+      case BATCH_OPTIONS.REGENERATE_SUMMARY_JOB_NAME:
+      case BATCH_OPTIONS.REGENERATE_QUIZZES_JOB_NAME:
+        await this.regenerate(job as Job<RegenerateQueueData>);
+        break;
+      case BATCH_OPTIONS.RECALIBRATE_QUIZZES_JOB_NAME:
+        await this.quizCalibrationService.recalibrate();
         break;
     }
   }
 
+  private async regenerate(job: Job<RegenerateQueueData>) {
+    const article = await this.batchService.findTargetArticle(job.data);
+    const { feedback } = job.data;
+
+    await this.llmUsageService.runWithContext(
+      { keywordId: article.keywordId, jobId: job.id ?? null },
+      async () => {
+        switch (job.name) {
+          case BATCH_OPTIONS.REGENERATE_ARTICLE_JOB_NAME:
+            await this.batchService.regenerateArticle(article, feedback);
+            break;
+          case BATCH_OPTIONS.REGENERATE_SUMMARY_JOB_NAME:
+            await this.batchService.regenerateSummary(article, feedback);
+            break;
+          case BATCH_OPTIONS.REGENERATE_QUIZZES_JOB_NAME:
+            await this.batchService.regenerateQuizzes(article, feedback);
+            break;
+        }
+      },
+    );
+    await this.logUsage(article.keywordId);
+  }
+
+  /**
+   * 키워드의 누적 LLM 사용량과 오늘(UTC) 전체 사용량을 로그로 남깁니다.
+   */
+  private async logUsage(keywordId: bigint) {
+    const today = this.llmUsageService.getUsageDate();
+    const [keywordUsage, [dailyUsage]] = await Promise.all([
+      this.llmUsageService.getKeywordUsage(keywordId),
+      this.llmUsageService.getDailyUsage(today, today),
+    ]);
+
+    this.logger.log(
+      `LLM usage for keyword ID ${keywordId}: ${keywordUsage.calls} calls, $${keywordUsage.costUsd.toFixed(4)} (today: ${dailyUsage?.calls ?? 0} calls, $${(dailyUsage?.costUsd ?? 0).toFixed(4)})`,
+    );
+  }
+
   @OnWorkerEvent('completed')
-  onCompleted(job: Job<BatchQueueData>) {
+  onCompleted(job: Job<BatchQueueData | RegenerateQueueData>) {
     this.logger.log(
-      `Job ${job.id} (${job.name}) completed successfully for keywordId: ${job.data.keywordId}`,
+      `Job ${job.id} (${job.name}) completed successfully for ${JSON.stringify(job.data)}`,
     );
   }
 
   @OnWorkerEvent('failed')
-  onFailed(job: Job<BatchQueueData>, error: Error) {
+  onFailed(job: Job<BatchQueueData | RegenerateQueueData>, error: Error) {
     this.logger.error(
-      `Job ${job.id} (${job.name}) failed for keywordId: ${job.data.keywordId}`,
+      `Job ${job.id} (${job.name}) failed for ${JSON.stringify(job.data)}`,
       error.stack,
     );
   }
@@ -3,16 +3,24 @@ import { Module } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { BATCH_OPTIONS } from 'src/constants/batch-options';
 import { PrismaModule } from 'src/prisma/prisma.module';
+import { RedisModule } from 'src/redis/redis.module';
 import { AiModule } from '../ai/ai.module';
 import { EnvSchema } from '../config/validate-env';
 import { BatchConsumer } from './batch.consumer';
 import { BatchService } from './batch.service';
 import { BraveSearchService } from './brave-search.service';
 import { CrawlingService } from './crawling.service';
+import { PipelineService } from './pipeline.service';
+import { QuizCalibrationService } from './quiz-calibration.service';
+import { SearchService } from './search.service';
+import { SearxngSearchService } from './searxng-search.service';
+import { SnapshotService } from './snapshot.service';
+import { StaticSearchService } from './static-search.service';
 
 @Module({
   imports: [
     PrismaModule,
+    RedisModule,
     AiModule,
     BullModule.forRootAsync({
       useFactory: (configService: ConfigService<EnvSchema, true>) => ({
@@ -27,6 +35,17 @@ import { CrawlingService } from './crawling.service';
       name: BATCH_OPTIONS.QUEUE_NAME,
     }),
   ],
-  providers: [BraveSearchService, CrawlingService, BatchService, BatchConsumer],
+  providers: [
+    SnapshotService,
+    BraveSearchService,
+    SearxngSearchService,
+    StaticSearchService,
+    SearchService,
+    CrawlingService,
+    PipelineService,
+    QuizCalibrationService,
+    BatchService,
+    BatchConsumer,
+  ],
 })
 export class BatchModule {}
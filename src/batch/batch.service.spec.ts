@@ -0,0 +1,445 @@
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { Article, Prisma } from 'generated/prisma/client';
+import z from 'zod';
+import { AiService } from 'src/ai/ai.service';
+import { EnvSchema } from 'src/config/validate-env';
+import { BATCH_OPTIONS } from 'src/constants/batch-options';
+import { ERROR_MESSAGE } from 'src/constants/error-message';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { BatchService } from './batch.service';
+import { CrawlingService } from './crawling.service';
+import { PipelineService } from './pipeline.service';
+import { SearchService } from './search.service';
+import {
+  formatQuizAnswer,
+  QuizSchema,
+  quizReviewSchema,
+} from './schemas/schemas';
+import { CrawlResult, RegenerateQueueData } from './types/types';
+
+// AI 제공자 SDK와 ESM 전용 패키지(quick-lru)를 불러오지 않도록 외부 연동 서비스 모듈을 대체
+jest.mock('src/ai/ai.service', () => ({ AiService: class {} }));
+jest.mock('./crawling.service', () => ({ CrawlingService: class {} }));
+
+const createService = (
+  prismaService = {},
+  aiService = {},
+  pipelineService = {},
+) =>
+  new BatchService(
+    {
+      get: () => ({
+        'multiple-choice': 1,
+        ox: 1,
+        cloze: 0,
+        'multi-select': 0,
+      }),
+    } as unknown as ConfigService<EnvSchema, true>,
+    {} as SearchService,
+    {} as CrawlingService,
+    prismaService as PrismaService,
+    aiService as AiService,
+    pipelineService as PipelineService,
+  );
+
+const crawledAt = new Date('2025-01-01T00:00:00Z');
+
+const createCrawl = (texts: CrawlResult['texts']): CrawlResult => ({
+  url: 'https://example.com/report',
+  title: '보고서',
+  siteName: null,
+  author: null,
+  publishedAt: null,
+  texts,
+  crawledAt,
+});
+
+describe('BatchService', () => {
+  describe('generateContents', () => {
+    const createPipelineService = (completed: boolean) => ({
+      hasStep: jest.fn().mockResolvedValue(true),
+      isPipelineCompleted: jest.fn().mockResolvedValue(completed),
+    });
+
+    it('파이프라인이 모두 완료된 키워드는 다시 생성하지 않고 예외를 던진다', async () => {
+      const findUnique = jest.fn();
+      const service = createService(
+        { keyword: { findUnique } },
+        {},
+        createPipelineService(true),
+      );
+
+      await expect(service.generateContents(1n)).rejects.toThrow(
+        ERROR_MESSAGE.CONTENTS_ALREADY_EXISTS,
+      );
+      expect(findUnique).not.toHaveBeenCalled();
+    });
+
+    it('완료되지 않은 파이프라인은 이어서 진행한다', async () => {
+      const findUnique = jest.fn().mockResolvedValue(null);
+      const service = createService(
+        { keyword: { findUnique } },
+        {},
+        createPipelineService(false),
+      );
+
+      await expect(service.generateContents(1n)).rejects.toThrow(
+        ERROR_MESSAGE.KEYWORD_NOT_FOUND,
+      );
+      expect(findUnique).toHaveBeenCalled();
+    });
+  });
+
+  describe('splitIntoDocuments', () => {
+    const service = createService();
+    const splitIntoDocuments = (crawl: CrawlResult) =>
+      service['splitIntoDocuments'](crawl);
+
+    it('짧은 HTML 문서는 하나의 문서로 합친다', () => {
+      expect(
+        splitIntoDocuments(
+          createCrawl([
+            { text: '첫 번째 문단입니다.', page: null },
+            { text: '두 번째 문단입니다.', page: null },
+          ]),
+        ),
+      ).toEqual([
+        {
+          id: 'https://example.com/report#0',
+          url: 'https://example.com/report',
+          title: '보고서',
+          content: '첫 번째 문단입니다.\n두 번째 문단입니다.',
+          page: null,
+          crawledAt,
+        },
+      ]);
+    });
+
+    it('PDF는 페이지별로 나누어 문서 ID와 제목에 페이지 번호를 남긴다', () => {
+      const documents = splitIntoDocuments(
+        createCrawl([
+          { text: '1쪽 첫 문단입니다.', page: 1 },
+          { text: '1쪽 둘째 문단입니다.', page: 1 },
+          { text: '3쪽 문단입니다.', page: 3 },
+        ]),
+      );
+
+      expect(
+        documents.map(({ id, title, content, page }) => ({
+          id,
+          title,
+          content,
+          page,
+        })),
+      ).toEqual([
+        {
+          id: 'https://example.com/report#page=1#0',
+          title: '보고서 (p.1)',
+          content: '1쪽 첫 문단입니다.\n1쪽 둘째 문단입니다.',
+          page: 1,
+        },
+        {
+          id: 'https://example.com/report#page=3#0',
+          title: '보고서 (p.3)',
+          content: '3쪽 문단입니다.',
+          page: 3,
+        },
+      ]);
+    });
+
+    it('긴 페이지는 문장 단위로 청크를 나누고 페이지 번호를 유지한다', () => {
+      const sentence = '기준금리 인상은 대출 이자 부담을 키운다. ';
+      const longText = sentence.repeat(
+        Math.ceil(BATCH_OPTIONS.MAX_TEXT_LENGTH_FOR_BM25 / sentence.length) + 1,
+      );
+
+      const documents = splitIntoDocuments(
+        createCrawl([{ text: longText, page: 2 }]),
+      );
+
+      expect(documents.length).toBeGreaterThan(1);
+      documents.forEach(({ id, title, content, page }, index) => {
+        expect(id).toBe(`https://example.com/report#page=2#${index}`);
+        expect(title).toBe(`보고서 (p.2) (Part ${index + 1})`);
+        expect(content.length).toBeLessThanOrEqual(BATCH_OPTIONS.CHUNK_SIZE);
+        expect(page).toBe(2);
+      });
+    });
+  });
+
+  describe('saveArticle', () => {
+    it('참고 청크마다 출처와 청크 해시, BM25 점수, 인용 여부를 저장한다', async () => {
+      const tx = {
+        article: { create: jest.fn().mockResolvedValue({ id: 7n }) },
+        articleSource: { createMany: jest.fn().mockResolvedValue({}) },
+        articleClaim: { createMany: jest.fn().mockResolvedValue({}) },
+      };
+      const longTitle = '가'.repeat(300);
+
+      await createService()['saveArticle'](
+        tx as unknown as Prisma.TransactionClient,
+        {
+          content: '본문',
+          keywordId: 3n,
+        } as Prisma.ArticleUncheckedCreateInput,
+        new Set(['R1']),
+        [
+          {
+            refId: 'R1',
+            document: {
+              id: 'https://www.example.com/report#0',
+              url: 'https://www.example.com/report',
+              title: '보고서',
+              content: '첫 번째 청크',
+              page: null,
+              crawledAt,
+            },
+            bm25Score: 2.5,
+          },
+          {
+            refId: 'R2',
+            document: {
+              id: 'https://docs.example.org/paper.pdf#p3',
+              url: 'https://docs.example.org/paper.pdf',
+              title: longTitle,
+              content: '두 번째 청크',
+              page: 3,
+              crawledAt,
+            },
+            bm25Score: 1.25,
+          },
+        ],
+        { claims: [], unsupportedRatio: 0, flagged: false },
+      );
+
+      const sha256 = (text: string) =>
+        createHash('sha256').update(text).digest('hex');
+      expect(tx.articleSource.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            refId: 'R1',
+            url: 'https://www.example.com/report',
+            title: '보고서',
+            domain: 'example.com',
+            page: null,
+            crawledAt,
+            chunkHash: sha256('첫 번째 청크'),
+            bm25Score: 2.5,
+            cited: true,
+            articleId: 7n,
+          },
+          {
+            refId: 'R2',
+            url: 'https://docs.example.org/paper.pdf',
+            title: longTitle.slice(0, 255),
+            domain: 'docs.example.org',
+            page: 3,
+            crawledAt,
+            chunkHash: sha256('두 번째 청크'),
+            bm25Score: 1.25,
+            cited: false,
+            articleId: 7n,
+          },
+        ],
+      });
+    });
+  });
+
+  describe('findTargetArticle', () => {
+    const article = { id: 12n } as Article;
+    let findFirst: jest.Mock;
+    let service: BatchService;
+
+    beforeEach(() => {
+      findFirst = jest.fn().mockResolvedValue(article);
+      service = createService({ article: { findFirst } });
+    });
+
+    it('articleId로 삭제되지 않은 아티클을 찾는다', async () => {
+      await expect(
+        service.findTargetArticle({ articleId: '12', keywordId: '3' }),
+      ).resolves.toBe(article);
+      expect(findFirst).toHaveBeenCalledWith({
+        where: { id: 12n, deletedAt: null },
+        orderBy: { version: 'desc' },
+      });
+    });
+
+    it('keywordId와 articleType으로 최신 버전의 아티클을 찾는다', async () => {
+      await service.findTargetArticle({
+        keywordId: '3',
+        articleType: 'concept',
+      });
+
+      expect(findFirst).toHaveBeenCalledWith({
+        where: { keywordId: 3n, type: 'concept', deletedAt: null },
+        orderBy: { version: 'desc' },
+      });
+    });
+
+    it.each([
+      ['숫자가 아닌 articleId', { articleId: 'abc' }],
+      ['숫자가 아닌 keywordId', { keywordId: '1e3', articleType: 'concept' }],
+      ['알 수 없는 articleType', { keywordId: '3', articleType: 'unknown' }],
+      ['articleType 없는 keywordId', { keywordId: '3' }],
+      ['빈 데이터', {}],
+    ])('%s: 재생성 대상을 지정하지 않은 것으로 본다', async (_, data) => {
+      await expect(
+        service.findTargetArticle(data as RegenerateQueueData),
+      ).rejects.toThrow(ERROR_MESSAGE.INVALID_REGENERATE_TARGET);
+      expect(findFirst).not.toHaveBeenCalled();
+    });
+
+    it('아티클이 없으면 예외를 던진다', async () => {
+      findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.findTargetArticle({ articleId: '12' }),
+      ).rejects.toThrow(ERROR_MESSAGE.ARTICLE_NOT_FOUND);
+    });
+  });
+
+  describe('재생성 교체', () => {
+    const SOFT_DELETED = {
+      deletedAt: expect.any(Date) as unknown,
+      updatedAt: expect.any(Date) as unknown,
+    };
+    const LEVEL = { bloomLevel: 'remember', difficulty: 'easy' } as const;
+    const QUIZZES: QuizSchema[] = [
+      {
+        type: 'multiple-choice',
+        description: '기준금리를 정하는 기관은?',
+        explanation: '기준금리는 한국은행 금융통화위원회가 정합니다.',
+        ...LEVEL,
+        question1: '한국은행',
+        question2: '기획재정부',
+        question3: '금융감독원',
+        question4: '국회',
+        answer: 1,
+      },
+      {
+        type: 'ox',
+        description: '기준금리가 오르면 대출 이자 부담이 커진다.',
+        explanation: '대출 금리는 기준금리를 따라 움직입니다.',
+        ...LEVEL,
+        answer: 'O',
+      },
+    ];
+
+    const createTransactionClient = () => ({
+      article: { updateMany: jest.fn().mockResolvedValue({ count: 1 }) },
+      quiz: {
+        aggregate: jest.fn().mockResolvedValue({ _max: { version: 2 } }),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        create: jest.fn().mockResolvedValue({}),
+      },
+    });
+
+    // 형식별 퀴즈 생성 요청에는 스키마에 맞는 퀴즈를, 검토 요청에는 정답 확인 결과를 반환
+    const aiService = {
+      generateObjFromAi: jest.fn(
+        (_task: string, _prompt: string, schema: z.ZodType) => {
+          if (schema === quizReviewSchema) {
+            return Promise.resolve({
+              reviews: QUIZZES.map((quiz, index) => ({
+                index,
+                answerable: true,
+                answer: formatQuizAnswer(quiz),
+                reason: '',
+              })),
+            });
+          }
+
+          return Promise.resolve({
+            quizzes: QUIZZES.filter(
+              (quiz) => schema.safeParse({ quizzes: [quiz] }).success,
+            ),
+          });
+        },
+      ),
+    };
+
+    it('퀴즈를 재생성하면 기존 퀴즈를 soft delete 하고 최신 버전 다음 버전으로 저장한다', async () => {
+      const tx = createTransactionClient();
+      const service = createService(
+        {
+          quiz: { groupBy: jest.fn().mockResolvedValue([]) },
+          $transaction: (run: (prisma: typeof tx) => Promise<void>) => run(tx),
+        },
+        aiService,
+      );
+
+      await service.regenerateQuizzes({
+        id: 12n,
+        keywordId: 3n,
+        content: '본문',
+      } as Article);
+
+      expect(tx.quiz.updateMany).toHaveBeenCalledWith({
+        where: { articleId: 12n, deletedAt: null },
+        data: SOFT_DELETED,
+      });
+      expect(tx.quiz.create).toHaveBeenCalledTimes(2);
+      expect(tx.quiz.updateMany.mock.invocationCallOrder[0]).toBeLessThan(
+        tx.quiz.create.mock.invocationCallOrder[0],
+      );
+      for (const type of ['MULTIPLE_CHOICE', 'OX']) {
+        expect(tx.quiz.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            type,
+            articleId: 12n,
+            version: 3,
+          }) as unknown,
+        });
+      }
+    });
+
+    it('보기가 없는 형식은 보기 컬럼을 비워 두고 정답을 형식에 맞게 저장한다', async () => {
+      const tx = createTransactionClient();
+
+      await createService()['saveQuizzes'](
+        tx as unknown as Prisma.TransactionClient,
+        12n,
+        [QUIZZES[1]],
+      );
+
+      expect(tx.quiz.create).toHaveBeenCalledWith({
+        data: {
+          type: 'OX',
+          difficulty: 'EASY',
+          bloomLevel: 'REMEMBER',
+          description: QUIZZES[1].description,
+          explanation: QUIZZES[1].explanation,
+          answer: 'O',
+          version: 1,
+          articleId: 12n,
+        },
+      });
+    });
+
+    it('다른 job이 먼저 교체한 아티클은 다시 교체하지 않는다', async () => {
+      const tx = createTransactionClient();
+      const service = createService();
+      const softDeleteArticle = (articleId: bigint) =>
+        service['softDeleteArticle'](
+          tx as unknown as Prisma.TransactionClient,
+          articleId,
+        );
+
+      await softDeleteArticle(12n);
+      expect(tx.article.updateMany).toHaveBeenCalledWith({
+        where: { id: 12n, deletedAt: null },
+        data: SOFT_DELETED,
+      });
+      expect(tx.quiz.updateMany).toHaveBeenCalled();
+
+      tx.article.updateMany.mockResolvedValue({ count: 0 });
+      tx.quiz.updateMany.mockClear();
+      await expect(softDeleteArticle(12n)).rejects.toThrow(
+        ERROR_MESSAGE.ARTICLE_NOT_FOUND,
+      );
+      expect(tx.quiz.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,54 +1,140 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { Article } from 'generated/prisma/client';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { Article, Prisma } from 'generated/prisma/client';
 import { AiService } from 'src/ai/ai.service';
+import { AiCallOptions } from 'src/ai/types/types';
 import { BATCH_OPTIONS } from 'src/constants/batch-options';
 import { ERROR_MESSAGE } from 'src/constants/error-message';
+import {
+  QUIZ_BLOOM_LEVEL_COLUMNS,
+  QUIZ_DIFFICULTY_COLUMNS,
+  QUIZ_TYPE_COLUMNS,
+} from 'src/constants/quiz-levels';
+import { EnvSchema } from 'src/config/validate-env';
 import { PrismaService } from 'src/prisma/prisma.service';
+import { getDomain } from 'src/utils/get-domain';
+import { BatchProgressService } from './batch-progress.service';
 import { BM25Service } from './bm25.service';
-import { BraveSearchService } from './brave-search.service';
 import { CrawlingService } from './crawling.service';
+import { DiversityService } from './diversity.service';
+import { FactCheckService } from './fact-check.service';
+import { HybridRetrievalService } from './hybrid-retrieval.service';
+import { PipelineService } from './pipeline.service';
+import { appendDifficultyRubric } from './prompts/append-difficulty-rubric';
+import { appendEditorFeedback } from './prompts/append-editor-feedback';
 import { createConceptPrompts } from './prompts/create-concept-prompts';
 import { createExamplePrompts } from './prompts/create-example-prompts';
+import { createClozeQuizzesPrompts } from './prompts/create-cloze-quizzes-prompts';
 import { createExplorationPrompts } from './prompts/create-exploration-prompts';
+import { createFactCheckFeedback } from './prompts/create-fact-check-feedback';
+import { createFactCheckPrompts } from './prompts/create-fact-check-prompts';
 import { createImportancePrompts } from './prompts/create-importance-prompts';
+import { createMultiSelectQuizzesPrompts } from './prompts/create-multi-select-quizzes-prompts';
+import { createOxQuizzesPrompts } from './prompts/create-ox-quizzes-prompts';
+import { createQuizRepairPrompts } from './prompts/create-quiz-repair-prompts';
+import { createQuizReviewPrompts } from './prompts/create-quiz-review-prompts';
 import { createQuizzesPrompts } from './prompts/create-quizzes-prompts';
 import { createRelatedWordsPrompts } from './prompts/create-related-words-prompts';
 import { createSummaryPrompts } from './prompts/create-summary-prompts';
-import { articleSchema, quizArraySchema } from './schemas/schemas';
-import { KeywordInfo } from './types/types';
+import {
+  ArticleSchema,
+  articleSchema,
+  factCheckSchema,
+  createQuizArraySchema,
+  formatQuizAnswer,
+  QuizDraftSchema,
+  quizDraftSchemas,
+  quizReviewSchema,
+  QuizSchema,
+  regenerateQueueDataSchema,
+} from './schemas/schemas';
+import { QuizShuffleService } from './quiz-shuffle.service';
+import { QuizValidatorService } from './quiz-validator.service';
+import { SearchService } from './search.service';
+import { KoreanTokenizer } from './tokenizers/korean-tokenizer';
+import {
+  ArticlePrompt,
+  ArticleType,
+  ClaimJudgement,
+  ClaimVerdict,
+  CrawlResult,
+  CrawledDocument,
+  EmbeddingProvider,
+  FactCheckResult,
+  KeywordInfo,
+  ProgressReporter,
+  QuizReview,
+  QuizType,
+  RankedDocument,
+  ReferenceChunk,
+  RegenerateQueueData,
+} from './types/types';
 
 @Injectable()
 export class BatchService {
   private readonly logger = new Logger(BatchService.name);
 
+  /** 아티클 하나에 생성할 형식별 퀴즈 수 */
+  private readonly quizFormatMix: Record<QuizType, number>;
+
   constructor(
-    private readonly braveSearchService: BraveSearchService,
+    configService: ConfigService<EnvSchema, true>,
+    private readonly searchService: SearchService,
     private readonly crawlingService: CrawlingService,
     private readonly prismaService: PrismaService,
     private readonly aiService: AiService,
-  ) {}
+    private readonly pipelineService: PipelineService,
+  ) {
+    this.quizFormatMix = configService.get('QUIZ_FORMAT_MIX', { infer: true });
+  }
 
-  async generateContents(keywordId: bigint): Promise<void> {
+  async generateContents(
+    keywordId: bigint,
+    onProgress: ProgressReporter = () => Promise.resolve(),
+  ): Promise<void> {
     this.logger.log(`Starting content generation for keyword ID: ${keywordId}`);
 
-    if (await this.isArticleExists(keywordId)) {
+    const progress = new BatchProgressService(
+      onProgress,
+      BATCH_OPTIONS.PROGRESS_REPORT_INTERVAL_MS,
+    );
+
+    // 파이프라인 상태 없이 생성된 기존 콘텐츠는 퀴즈가 없을 때만 퀴즈를 생성
+    if (
+      !(await this.pipelineService.hasStep(keywordId, 'search')) &&
+      (await this.isArticleExists(keywordId))
+    ) {
       if (await this.isQuizExists(keywordId)) {
         this.logger.warn(`Contents already exist for keyword ID: ${keywordId}`);
         throw new Error(ERROR_MESSAGE.CONTENTS_ALREADY_EXISTS);
       }
 
-      await this.generateQuizzes(keywordId);
+      await this.generateQuizzes(keywordId, progress);
+      await progress.setStage('completed');
       this.logger.log(
         `Successfully completed content generation for keyword ID: ${keywordId}`,
       );
       return;
     }
 
+    if (await this.pipelineService.isPipelineCompleted(keywordId)) {
+      this.logger.warn(`Contents already exist for keyword ID: ${keywordId}`);
+      throw new Error(ERROR_MESSAGE.CONTENTS_ALREADY_EXISTS);
+    }
+
     const keywordInfo = await this.findKeyword(keywordId);
 
-    const prompts = await this.createPrompts(keywordInfo);
-    await this.generateArticles(keywordId, prompts);
-    await this.generateQuizzes(keywordId);
+    const references = await this.generateRelatedData(
+      keywordId,
+      keywordInfo,
+      progress,
+    );
+    const prompts = this.createPrompts(keywordInfo, references);
+    await this.generateArticles(keywordId, prompts, references, progress);
+    await this.generateQuizzes(keywordId, progress);
+    await this.pipelineService.completePipeline(keywordId);
+    await progress.setStage('completed');
 
     this.logger.log(
       `Successfully completed content generation for keyword ID: ${keywordId}`,
@@ -108,207 +194,904 @@ export class BatchService {
     return chunks.filter((chunk) => chunk.length > 0);
   }
 
-  private async generateRelatedData(keywordInfo: KeywordInfo) {
+  /**
+   * 크롤링 결과를 BM25 랭킹 단위의 문서로 분할합니다.
+   * PDF는 페이지 단위로 먼저 나누어 각 청크가 페이지 번호를 유지하도록 합니다.
+   */
+  private splitIntoDocuments({
+    url,
+    title,
+    texts,
+    crawledAt,
+  }: CrawlResult): CrawledDocument[] {
+    const textsByPage = new Map<number | null, string[]>();
+    for (const { text, page } of texts) {
+      textsByPage.set(page, [...(textsByPage.get(page) ?? []), text]);
+    }
+
+    return Array.from(textsByPage).flatMap(([page, pageTexts]) => {
+      const fullContent = pageTexts.join('\n');
+      const idPrefix = page === null ? url : `${url}#page=${page}`;
+      const titlePrefix = page === null ? title : `${title} (p.${page})`;
+
+      // 이미 짧은 문서는 그대로 사용
+      if (fullContent.length <= BATCH_OPTIONS.MAX_TEXT_LENGTH_FOR_BM25) {
+        return [
+          {
+            id: `${idPrefix}#0`,
+            url,
+            title: titlePrefix,
+            content: fullContent,
+            page,
+            crawledAt,
+          },
+        ];
+      }
+
+      // 긴 문서는 문장 단위로 청크 분할
+      const chunks = this.chunkTextBySentence(fullContent);
+      this.logger.log(
+        `Chunked document "${titlePrefix}" into ${chunks.length} parts`,
+      );
+      return chunks.map((chunk, idx) => ({
+        id: `${idPrefix}#${idx}`,
+        url,
+        title: `${titlePrefix} (Part ${idx + 1})`,
+        content: chunk,
+        page,
+        crawledAt,
+      }));
+    });
+  }
+
+  private async generateRelatedData(
+    keywordId: bigint,
+    keywordInfo: KeywordInfo,
+    progress: BatchProgressService,
+  ): Promise<ReferenceChunk[]> {
     this.logger.log(`Generating related data for keyword: ${keywordInfo.name}`);
 
     const query = this.generateQuery(keywordInfo);
 
+    await progress.setStage('search');
     this.logger.log(`Searching for keyword with query: ${query}`);
-    const searchResults = await this.braveSearchService.searchByKeyword(query);
+    const searchResults = await this.pipelineService.runStep(
+      keywordId,
+      'search',
+      () => this.searchService.searchByKeyword(query),
+    );
     this.logger.log(`Found ${searchResults.length} search results`);
 
-    this.logger.log('Starting web crawling for search results');
-    const crawledArr = await Promise.all(
-      searchResults.map(async (result) => {
-        return this.crawlingService.crawlWebsite(result);
-      }),
-    );
+    // 동일 URL이 중복으로 검색된 경우 한 번만 크롤링하여 문서 ID 충돌을 방지
+    const uniqueResults = [
+      ...new Map(searchResults.map((result) => [result.url, result])).values(),
+    ];
 
-    const crawledCount = crawledArr.filter((data) => data !== null).length;
-    this.logger.log(`Successfully crawled ${crawledCount} documents`);
+    // 크롤링 결과(페이지 전체 본문)는 크기가 크므로 저장하지 않고, 선택된 참고 자료만 저장
+    await progress.setStage('crawl');
+    return this.pipelineService.runStep(keywordId, 'rank', async () => {
+      this.logger.log('Starting web crawling for search results');
+      const crawledArr =
+        await this.crawlingService.crawlWebsites(uniqueResults);
+      this.logger.log(`Successfully crawled ${crawledArr.length} documents`);
 
-    const validDocs = crawledArr
-      .filter((data) => data !== null)
-      .flatMap(({ title, texts }) => {
-        const fullContent = texts.join('\n');
+      await progress.setStage('rank');
+      return this.selectReferences(query, crawledArr);
+    });
+  }
 
-        // 이미 짧은 문서는 그대로 사용
-        if (fullContent.length <= BATCH_OPTIONS.MAX_TEXT_LENGTH_FOR_BM25) {
-          return [{ title, content: fullContent }];
-        }
+  /**
+   * 크롤링한 문서를 청크로 나누어 랭킹한 뒤, 다양성을 고려해 참고 자료를 선택합니다.
+   */
+  private async selectReferences(
+    query: string,
+    crawledArr: CrawlResult[],
+  ): Promise<ReferenceChunk[]> {
+    const validDocs = crawledArr.flatMap((crawled) =>
+      this.splitIntoDocuments(crawled),
+    );
 
-        // 긴 문서는 문장 단위로 청크 분할
-        const chunks = this.chunkTextBySentence(fullContent);
-        this.logger.log(
-          `Chunked document "${title}" into ${chunks.length} parts`,
-        );
-        return chunks.map((chunk, idx) => ({
-          title: `${title} (Part ${idx + 1})`,
-          content: chunk,
-        }));
-      });
+    this.logger.log(`Prepared ${validDocs.length} document chunks for ranking`);
 
+    const rankedDocs = await this.rankDocuments(query, validDocs);
     this.logger.log(
-      `Prepared ${validDocs.length} document chunks for BM25 ranking`,
+      `Hybrid ranking completed, found ${rankedDocs.length} candidate documents`,
     );
 
-    const bm25Service = new BM25Service(validDocs);
-
-    const mostRelatedDocs = bm25Service
-      .search(query, 10)
-      .map(({ document }) => document);
+    const diversityService = new DiversityService({
+      shingleSize: BATCH_OPTIONS.SHINGLE_SIZE,
+      numHashes: BATCH_OPTIONS.MINHASH_NUM_HASHES,
+      nearDuplicateThreshold: BATCH_OPTIONS.NEAR_DUPLICATE_THRESHOLD,
+      mmrLambda: BATCH_OPTIONS.MMR_LAMBDA,
+      maxPerDomain: BATCH_OPTIONS.MAX_CHUNKS_PER_DOMAIN,
+    });
+    const references = diversityService
+      .select(rankedDocs, BATCH_OPTIONS.RETRIEVAL_TOP_K)
+      .map(({ document, bm25Score }, idx) => ({
+        refId: `ref-${idx + 1}`,
+        document,
+        bm25Score,
+      }));
 
     this.logger.log(
-      `BM25 ranking completed, found ${mostRelatedDocs.length} related documents`,
+      `Diversity selection completed, selected ${references.length} related documents`,
     );
-    return JSON.stringify(mostRelatedDocs);
+    return references;
   }
 
-  private async createPrompts(keywordInfo: KeywordInfo): Promise<string[]> {
+  private async rankDocuments(
+    query: string,
+    documents: CrawledDocument[],
+  ): Promise<RankedDocument[]> {
+    const tokenizer = new KoreanTokenizer({
+      mode: BATCH_OPTIONS.BM25_TOKENIZER_MODE,
+      ngramSize: BATCH_OPTIONS.BM25_NGRAM_SIZE,
+    });
+    const bm25Service = new BM25Service(documents, {}, tokenizer);
+
+    const embeddingProvider: EmbeddingProvider = {
+      embed: (texts) => this.aiService.embedTextsFromAi(texts),
+    };
+    const hybridRetrievalService = new HybridRetrievalService(
+      documents,
+      embeddingProvider,
+      {
+        rrfK: BATCH_OPTIONS.RRF_K,
+        denseWeight: BATCH_OPTIONS.RRF_DENSE_WEIGHT,
+        bm25Weight: BATCH_OPTIONS.RRF_BM25_WEIGHT,
+      },
+      bm25Service,
+    );
+
+    try {
+      return await hybridRetrievalService.search(
+        query,
+        BATCH_OPTIONS.RETRIEVAL_CANDIDATE_SIZE,
+      );
+    } catch (error) {
+      // 임베딩 생성에 실패하면 BM25 랭킹만으로 진행
+      this.logger.warn(
+        `Embedding failed, falling back to BM25 ranking: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return bm25Service
+        .search(query, BATCH_OPTIONS.RETRIEVAL_CANDIDATE_SIZE)
+        .map((result) => ({ ...result, bm25Score: result.score }));
+    }
+  }
+
+  private createPrompts(
+    keywordInfo: KeywordInfo,
+    references: ReferenceChunk[],
+  ): ArticlePrompt[] {
     this.logger.log(`Creating prompts for keyword: ${keywordInfo.name}`);
 
-    const relatedData = await this.generateRelatedData(keywordInfo);
+    const relatedData = this.toReferenceData(references);
 
-    const prompts = [
-      createConceptPrompts(
-        keywordInfo.name,
-        keywordInfo.description,
-        relatedData,
-      ),
-      createExamplePrompts(
-        keywordInfo.name,
-        keywordInfo.description,
-        relatedData,
-      ),
-      createRelatedWordsPrompts(
-        keywordInfo.name,
-        keywordInfo.description,
-        relatedData,
-      ),
-      createImportancePrompts(
-        keywordInfo.name,
-        keywordInfo.description,
-        relatedData,
-      ),
-      createExplorationPrompts(
-        keywordInfo.name,
-        keywordInfo.description,
-        relatedData,
-      ),
-    ];
+    const promptBuilders: Record<
+      ArticleType,
+      (name: string, description: string, relatedData: string) => string
+    > = {
+      concept: createConceptPrompts,
+      example: createExamplePrompts,
+      'related-words': createRelatedWordsPrompts,
+      importance: createImportancePrompts,
+      exploration: createExplorationPrompts,
+    };
+
+    const prompts = Object.entries(promptBuilders).map(([type, build]) => ({
+      type: type as ArticleType,
+      prompt: build(keywordInfo.name, keywordInfo.description, relatedData),
+    }));
 
     this.logger.log(`Successfully created ${prompts.length} prompts`);
     return prompts;
   }
 
+  /**
+   * 프롬프트의 `<reference_data>`에 넣을 참고 자료 JSON
+   */
+  private toReferenceData(references: ReferenceChunk[]): string {
+    return JSON.stringify(
+      references.map(({ refId, document }) => ({
+        id: refId,
+        title: document.title,
+        ...(document.page !== null && { page: document.page }),
+        content: document.content,
+      })),
+    );
+  }
+
   private async generateArticles(
     keywordId: bigint,
-    prompts: string[],
+    prompts: ArticlePrompt[],
+    references: ReferenceChunk[],
+    progress: BatchProgressService,
   ): Promise<Article[]> {
     this.logger.log(
       `Generating articles for keyword ID: ${keywordId} with ${prompts.length} prompts`,
     );
 
-    this.logger.log('Generating article titles and contents from AI');
-    const titleAndContents = await Promise.all(
-      prompts.map((prompt) => {
-        return this.aiService.generateObjFromAi(
-          'gemini',
-          prompt,
-          articleSchema,
-        );
-      }),
+    const publishedAt = await this.getKeywordPublishedDate(keywordId);
+    await progress.startArticles(prompts.length);
+
+    // 아티클마다 생성이 끝나는 즉시 저장하여, 일부가 실패해도 완성된 아티클은 남도록 함
+    const articles = await Promise.all(
+      prompts.map(({ type, prompt }, index) =>
+        this.generateArticle(
+          { keywordId, publishedAt, type, prompt, index },
+          references,
+          progress,
+        ),
+      ),
     );
+
     this.logger.log(
-      `Successfully generated ${titleAndContents.length} articles`,
+      `Successfully saved ${articles.length} articles to database`,
     );
+    return articles;
+  }
 
-    this.logger.log('Generating summaries for articles');
-    const summaries = await Promise.all(
-      titleAndContents.map((titleAndContent) => {
-        return this.aiService.generateTextFromAi(
-          'gemini',
-          createSummaryPrompts(titleAndContent.content),
-        );
-      }),
+  /**
+   * 아티클 본문 생성, 검증, 요약 생성, 저장을 각각 파이프라인 단계로 실행합니다.
+   */
+  private async generateArticle(
+    {
+      keywordId,
+      publishedAt,
+      type,
+      prompt,
+      index,
+    }: {
+      keywordId: bigint;
+      publishedAt: Date;
+      type: ArticleType;
+      prompt: string;
+      index: number;
+    },
+    references: ReferenceChunk[],
+    progress: BatchProgressService,
+  ): Promise<Article> {
+    this.logger.log(`Generating ${type} article from AI`);
+    await progress.updateArticle(index, { status: 'generating' });
+
+    const generated = await this.pipelineService.runStep(
+      keywordId,
+      `article:${type}`,
+      () =>
+        this.aiService.streamObjFromAi('article', prompt, articleSchema, {
+          onPartial: (partial) =>
+            void progress.updateArticle(
+              index,
+              { characters: partial.content?.length ?? 0 },
+              false,
+            ),
+        }),
     );
-    this.logger.log(`Successfully generated ${summaries.length} summaries`);
 
-    const publishedAt = await this.getKeywordPublishedDate(keywordId);
+    await progress.updateArticle(index, {
+      status: 'verifying',
+      characters: generated.content.length,
+    });
+    const {
+      article: { citations, ...titleAndContent },
+      factCheck,
+    } = await this.pipelineService.runStep(
+      keywordId,
+      `fact-check:${type}`,
+      () => this.verifyArticle(type, prompt, generated, references),
+    );
 
-    const createArticleDtos = titleAndContents.map((titleAndContent, idx) => ({
-      ...titleAndContent,
-      summary: summaries[idx],
-      publishedAt,
+    await progress.updateArticle(index, {
+      status: 'summarizing',
+      characters: titleAndContent.content.length,
+    });
+    const summary = await this.pipelineService.runStep(
       keywordId,
-    }));
+      `summary:${type}`,
+      () =>
+        this.aiService.generateTextFromAi(
+          'summary',
+          createSummaryPrompts(titleAndContent.content),
+        ),
+    );
 
-    const articles: Article[] = [];
+    const article = await this.pipelineService.runSaveStep(
+      keywordId,
+      `save-article:${type}`,
+      (prisma) =>
+        this.saveArticle(
+          prisma,
+          { ...titleAndContent, summary, publishedAt, keywordId, type },
+          new Set(citations),
+          references,
+          factCheck,
+        ),
+    );
 
-    this.logger.log('Saving articles to database');
-    await this.prismaService.$transaction(async (prisma) => {
-      for (const article of createArticleDtos) {
-        const newArticle = await prisma.article.create({
-          data: article,
-        });
+    await progress.updateArticle(index, {
+      status: 'saved',
+      articleId: article.id.toString(),
+    });
+    this.logger.log(`Saved ${type} article with ID: ${article.id}`);
 
-        articles.push(newArticle);
+    return article;
+  }
+
+  /**
+   * 아티클을 참고 자료와 대조하여 검증합니다.
+   * 근거 없는 문장의 비율이 기준을 넘으면 해당 문장을 피드백으로 전달하여 다시 생성하고,
+   * 재생성 후에도 기준을 넘으면 가장 비율이 낮았던 아티클을 `flagged` 상태로 반환합니다.
+   */
+  private async verifyArticle(
+    type: ArticleType,
+    prompt: string,
+    article: ArticleSchema,
+    references: ReferenceChunk[],
+    feedback?: string,
+  ): Promise<{ article: ArticleSchema; factCheck: FactCheckResult }> {
+    const factCheckService = new FactCheckService(
+      { judge: (claims, refs) => this.judgeClaims(claims, refs) },
+      {
+        minClaimLength: BATCH_OPTIONS.FACT_CHECK_MIN_CLAIM_LENGTH,
+        lexicalSupportThreshold:
+          BATCH_OPTIONS.FACT_CHECK_LEXICAL_SUPPORT_THRESHOLD,
+        maxUnsupportedRatio: BATCH_OPTIONS.FACT_CHECK_MAX_UNSUPPORTED_RATIO,
+      },
+      new KoreanTokenizer({
+        mode: BATCH_OPTIONS.BM25_TOKENIZER_MODE,
+        ngramSize: BATCH_OPTIONS.BM25_NGRAM_SIZE,
+      }),
+    );
+
+    let best = {
+      article,
+      factCheck: await factCheckService.verify(article.content, references),
+    };
+
+    for (
+      let attempt = 1;
+      best.factCheck.flagged &&
+      attempt <= BATCH_OPTIONS.FACT_CHECK_MAX_REGENERATIONS;
+      attempt++
+    ) {
+      this.logger.warn(
+        `${type} article has ${(best.factCheck.unsupportedRatio * 100).toFixed(0)}% unsupported claims, regenerating (attempt ${attempt})`,
+      );
+
+      const unsupportedClaims = best.factCheck.claims
+        .filter(({ verdict }) => verdict !== 'supported')
+        .map(({ claim }) => claim);
+      const regenerated = await this.aiService.streamObjFromAi(
+        'article',
+        appendEditorFeedback(
+          prompt,
+          [feedback, createFactCheckFeedback(unsupportedClaims)]
+            .filter(Boolean)
+            .join('\n'),
+        ),
+        articleSchema,
+        { bypassCache: true },
+      );
+      const factCheck = await factCheckService.verify(
+        regenerated.content,
+        references,
+      );
+
+      if (factCheck.unsupportedRatio < best.factCheck.unsupportedRatio) {
+        best = { article: regenerated, factCheck };
       }
-    });
+    }
 
-    this.logger.log(
-      `Successfully saved ${articles.length} articles to database`,
+    if (best.factCheck.flagged) {
+      this.logger.warn(
+        `Flagging ${type} article with ${(best.factCheck.unsupportedRatio * 100).toFixed(0)}% unsupported claims for review`,
+      );
+    }
+
+    return best;
+  }
+
+  private async judgeClaims(
+    claims: string[],
+    references: ReferenceChunk[],
+  ): Promise<ClaimJudgement[]> {
+    const { verdicts } = await this.aiService.generateObjFromAi(
+      'fact-check',
+      createFactCheckPrompts(
+        JSON.stringify(claims.map((claim, index) => ({ index, claim }))),
+        this.toReferenceData(references),
+      ),
+      factCheckSchema,
     );
-    return articles;
+
+    return verdicts;
   }
 
-  private async generateQuizzes(keywordId: bigint): Promise<void> {
+  /**
+   * 아티클과 참고 출처, 문장별 검증 결과를 저장합니다.
+   */
+  private async saveArticle(
+    prisma: Prisma.TransactionClient,
+    article: Prisma.ArticleUncheckedCreateInput,
+    citations: Set<string>,
+    references: ReferenceChunk[],
+    factCheck: FactCheckResult,
+  ): Promise<Article> {
+    const newArticle = await prisma.article.create({
+      data: {
+        ...article,
+        unsupportedRatio: factCheck.unsupportedRatio,
+        factCheckFlagged: factCheck.flagged,
+      },
+    });
+
+    await prisma.articleSource.createMany({
+      data: references.map(({ refId, document, bm25Score }) => ({
+        refId,
+        url: document.url,
+        title: document.title.slice(0, 255),
+        domain: getDomain(document.url),
+        page: document.page,
+        crawledAt: document.crawledAt,
+        chunkHash: createHash('sha256').update(document.content).digest('hex'),
+        bm25Score,
+        cited: citations.has(refId),
+        articleId: newArticle.id,
+      })),
+    });
+
+    await prisma.articleClaim.createMany({
+      data: factCheck.claims.map(
+        ({ claim, verdict, lexicalScore, refIds, reason }) => ({
+          claim,
+          verdict: verdict.toUpperCase() as Uppercase<ClaimVerdict>,
+          lexicalScore,
+          refIds,
+          reason,
+          articleId: newArticle.id,
+        }),
+      ),
+    });
+
+    return newArticle;
+  }
+
+  private async generateQuizzes(
+    keywordId: bigint,
+    progress: BatchProgressService,
+  ): Promise<void> {
     this.logger.log(`Generating quizzes for keyword ID: ${keywordId}`);
 
+    // 퀴즈는 아티클 단위로 한 번에 저장되므로, 퀴즈가 없는 아티클만 생성 대상
     const articles = await this.prismaService.article.findMany({
       where: {
         keywordId,
+        deletedAt: null,
+        Quiz: { none: { deletedAt: null } },
       },
+      orderBy: { id: 'asc' },
     });
 
     this.logger.log(`Found ${articles.length} articles for quiz generation`);
+    await progress.startQuizzes(articles.length);
 
-    this.logger.log('Generating quizzes from AI');
-    const quizzes = await Promise.all(
-      articles.map(async (article) => {
-        return {
-          ...(await this.aiService.generateObjFromAi(
-            'gemini',
-            createQuizzesPrompts(article.content),
-            quizArraySchema,
-          )),
-          articleId: article.id,
-        };
-      }),
+    // 아티클별로 퀴즈 생성과 저장을 각각 파이프라인 단계로 실행
+    const quizSets = await Promise.all(
+      articles.map((article) =>
+        this.pipelineService.runStep(keywordId, `quiz:${article.id}`, () =>
+          this.generateQuizSet(article.content),
+        ),
+      ),
+    );
+
+    // 정답 위치는 키워드 전체에서 분배되므로 아티클 ID 순서대로 섞어서 저장
+    // 시드는 아티클별로 두어, 일부 아티클만 저장된 뒤 재시도되어도 같은 결과가 나오도록 함
+    let answerCounts = await this.countAnswerPositions(keywordId);
+    let totalQuizCount = 0;
+
+    for (const [index, article] of articles.entries()) {
+      const shuffler = new QuizShuffleService(
+        `${keywordId}:${article.id}`,
+        answerCounts,
+      );
+      const quizzes = quizSets[index].map((quiz) => shuffler.shuffle(quiz));
+      answerCounts = shuffler.getCounts();
+
+      await this.pipelineService.runSaveStep(
+        keywordId,
+        `save-quiz:${article.id}`,
+        (prisma) => this.saveQuizzes(prisma, article.id, quizzes),
+      );
+      await progress.completeQuiz();
+
+      totalQuizCount += quizzes.length;
+    }
+
+    this.logger.log(
+      `Successfully saved ${totalQuizCount} quizzes for ${articles.length} articles`,
+    );
+  }
+
+  /**
+   * 퀴즈를 형식별로 생성하고 검증합니다. 각 퀴즈는 Bloom 루브릭에 따른 난이도를 포함합니다.
+   * 검증에 실패한 퀴즈는 실패 이유를 담은 보정 프롬프트로 하나씩 다시 생성하며,
+   * `QUIZ_MAX_REPAIR_ATTEMPTS`번 보정해도 실패하면 저장하지 않고 제외합니다.
+   */
+  private async generateQuizSet(
+    content: string,
+    feedback?: string,
+    options: AiCallOptions = {},
+  ): Promise<QuizSchema[]> {
+    const promptBuilders: Record<
+      QuizType,
+      (content: string, count: number) => string
+    > = {
+      'multiple-choice': createQuizzesPrompts,
+      ox: createOxQuizzesPrompts,
+      cloze: createClozeQuizzesPrompts,
+      'multi-select': createMultiSelectQuizzesPrompts,
+    };
+
+    const quizSets = await Promise.all(
+      (Object.keys(promptBuilders) as QuizType[])
+        .filter((type) => this.quizFormatMix[type] > 0)
+        .map(async (type) => {
+          const count = this.quizFormatMix[type];
+          const { quizzes } = await this.aiService.generateObjFromAi(
+            'quiz',
+            appendEditorFeedback(
+              appendDifficultyRubric(promptBuilders[type](content, count)),
+              feedback,
+            ),
+            createQuizArraySchema(quizDraftSchemas[type], count),
+            options,
+          );
+
+          return quizzes;
+        }),
+    );
+    const quizzes = quizSets.flat();
+
+    const quizValidatorService = new QuizValidatorService({
+      review: (article, drafts) => this.reviewQuizzes(article, drafts),
+    });
+    const accepted: QuizSchema[] = [];
+    let candidates: QuizDraftSchema[] = quizzes;
+
+    for (let attempt = 0; candidates.length > 0; attempt++) {
+      const { valid, invalid } = await quizValidatorService.validate(
+        content,
+        candidates,
+        accepted,
+      );
+      accepted.push(...valid);
+
+      if (invalid.length === 0) break;
+
+      if (attempt === BATCH_OPTIONS.QUIZ_MAX_REPAIR_ATTEMPTS) {
+        this.logger.warn(
+          `Dropping ${invalid.length} quizzes that failed validation: ${JSON.stringify(invalid.map(({ issues }) => issues))}`,
+        );
+        break;
+      }
+
+      this.logger.warn(
+        `Repairing ${invalid.length} quizzes that failed validation (attempt ${attempt + 1})`,
+      );
+      candidates = await Promise.all(
+        invalid.map(async ({ quiz, issues }) => {
+          const { quizzes: repaired } = await this.aiService.generateObjFromAi(
+            'quiz',
+            appendDifficultyRubric(
+              createQuizRepairPrompts(content, JSON.stringify(quiz), issues),
+            ),
+            createQuizArraySchema(quizDraftSchemas[quiz.type], 1),
+            { bypassCache: true },
+          );
+
+          return repaired[0];
+        }),
+      );
+    }
+
+    return accepted;
+  }
+
+  private async reviewQuizzes(
+    content: string,
+    quizzes: QuizSchema[],
+  ): Promise<QuizReview[]> {
+    // 정답과 해설을 제외하고 문제와 보기만 전달
+    const questions = quizzes.map((quiz, index) => {
+      const { type, description } = quiz;
+
+      return 'question1' in quiz
+        ? {
+            index,
+            type,
+            description,
+            question1: quiz.question1,
+            question2: quiz.question2,
+            question3: quiz.question3,
+            question4: quiz.question4,
+          }
+        : { index, type, description };
+    });
+
+    const { reviews } = await this.aiService.generateObjFromAi(
+      'quiz',
+      createQuizReviewPrompts(content, JSON.stringify(questions)),
+      quizReviewSchema,
+    );
+
+    return reviews;
+  }
+
+  /**
+   * 키워드의 기존 4지선다 퀴즈의 위치별 정답 수를 셉니다. (인덱스 0이 1번 보기)
+   * `excludeArticleId`의 퀴즈는 교체될 예정이므로 분포에서 제외합니다.
+   */
+  private async countAnswerPositions(
+    keywordId: bigint,
+    excludeArticleId?: bigint,
+  ): Promise<number[]> {
+    const answers = await this.prismaService.quiz.groupBy({
+      by: ['answer'],
+      where: {
+        type: QUIZ_TYPE_COLUMNS['multiple-choice'],
+        deletedAt: null,
+        Article: {
+          keywordId,
+          deletedAt: null,
+          ...(excludeArticleId && { id: { not: excludeArticleId } }),
+        },
+      },
+      _count: { _all: true },
+    });
+
+    const counts = [0, 0, 0, 0];
+    for (const { answer, _count } of answers) {
+      const position = Number(answer) - 1;
+      if (counts[position] !== undefined) counts[position] = _count._all;
+    }
+
+    return counts;
+  }
+
+  /**
+   * 퀴즈를 형식(`type`)과 함께 저장합니다.
+   * 보기가 없는 형식(O/X, 빈칸)은 `question1`~`question4`를 비워 둡니다.
+   */
+  private async saveQuizzes(
+    prisma: Prisma.TransactionClient,
+    articleId: bigint,
+    quizzes: QuizSchema[],
+    version = 1,
+  ): Promise<void> {
+    for (const quiz of quizzes) {
+      await prisma.quiz.create({
+        data: {
+          type: QUIZ_TYPE_COLUMNS[quiz.type],
+          difficulty: QUIZ_DIFFICULTY_COLUMNS[quiz.difficulty],
+          bloomLevel: QUIZ_BLOOM_LEVEL_COLUMNS[quiz.bloomLevel],
+          description: quiz.description,
+          explanation: quiz.explanation,
+          ...('question1' in quiz && {
+            question1: quiz.question1,
+            question2: quiz.question2,
+            question3: quiz.question3,
+            question4: quiz.question4,
+          }),
+          answer: formatQuizAnswer(quiz),
+          version,
+          articleId,
+        },
+      });
+    }
+  }
+
+  /**
+   * 재생성 대상 아티클을 찾습니다. 삭제(교체)된 아티클은 대상이 아닙니다.
+   * job 데이터의 ID가 숫자가 아니거나 대상을 지정하지 않으면 `INVALID_REGENERATE_TARGET` 예외를 던집니다.
+   */
+  async findTargetArticle(data: RegenerateQueueData): Promise<Article> {
+    const result = regenerateQueueDataSchema.safeParse(data);
+    if (!result.success) {
+      throw new Error(ERROR_MESSAGE.INVALID_REGENERATE_TARGET);
+    }
+
+    const { articleId, keywordId, articleType } = result.data;
+    let where: Prisma.ArticleWhereInput;
+    if (articleId) {
+      where = { id: BigInt(articleId), deletedAt: null };
+    } else if (keywordId && articleType) {
+      where = {
+        keywordId: BigInt(keywordId),
+        type: articleType,
+        deletedAt: null,
+      };
+    } else {
+      throw new Error(ERROR_MESSAGE.INVALID_REGENERATE_TARGET);
+    }
+
+    const article = await this.prismaService.article.findFirst({
+      where,
+      orderBy: { version: 'desc' },
+    });
+
+    if (!article) {
+      throw new Error(ERROR_MESSAGE.ARTICLE_NOT_FOUND);
+    }
+
+    return article;
+  }
+
+  /**
+   * 아티클 본문, 요약, 퀴즈를 새로 생성하여 새 버전의 아티클로 교체합니다.
+   * 기존 아티클과 퀴즈는 리뷰와 풀이 기록이 참조하므로 삭제하지 않고 `deletedAt`만 기록합니다.
+   */
+  async regenerateArticle(
+    article: Article,
+    feedback?: string,
+  ): Promise<Article> {
+    this.logger.log(`Regenerating article ID: ${article.id}`);
+
+    const type = article.type as ArticleType | null;
+    const keywordInfo = await this.findKeyword(article.keywordId);
+
+    // 파이프라인에 저장된 참고 자료를 재사용 (없으면 새로 수집)
+    const references = await this.generateRelatedData(
+      article.keywordId,
+      keywordInfo,
+      new BatchProgressService(() => Promise.resolve()),
+    );
+    const articlePrompt = this.createPrompts(keywordInfo, references).find(
+      (prompt) => prompt.type === type,
     );
 
-    const totalQuizCount = quizzes.reduce(
-      (sum, q) => sum + q.quizzes.length,
-      0,
+    if (!articlePrompt) {
+      throw new Error(ERROR_MESSAGE.ARTICLE_TYPE_UNKNOWN);
+    }
+
+    const generated = await this.aiService.streamObjFromAi(
+      'article',
+      appendEditorFeedback(articlePrompt.prompt, feedback),
+      articleSchema,
+      { bypassCache: true },
     );
+    const {
+      article: { citations, ...titleAndContent },
+      factCheck,
+    } = await this.verifyArticle(
+      articlePrompt.type,
+      articlePrompt.prompt,
+      generated,
+      references,
+      feedback,
+    );
+    const summary = await this.aiService.generateTextFromAi(
+      'summary',
+      createSummaryPrompts(titleAndContent.content),
+    );
+    const shuffler = new QuizShuffleService(
+      `article:${article.id}:${article.version + 1}`,
+      await this.countAnswerPositions(article.keywordId, article.id),
+    );
+    const quizzes = (await this.generateQuizSet(titleAndContent.content)).map(
+      (quiz) => shuffler.shuffle(quiz),
+    );
+
+    const newArticle = await this.prismaService.$transaction(async (prisma) => {
+      await this.softDeleteArticle(prisma, article.id);
+
+      const created = await this.saveArticle(
+        prisma,
+        {
+          ...titleAndContent,
+          summary,
+          publishedAt: article.publishedAt,
+          keywordId: article.keywordId,
+          type: article.type,
+          version: article.version + 1,
+        },
+        new Set(citations),
+        references,
+        factCheck,
+      );
+      await this.saveQuizzes(prisma, created.id, quizzes);
+
+      return created;
+    });
+
     this.logger.log(
-      `Successfully generated ${totalQuizCount} quizzes for ${articles.length} articles`,
+      `Replaced article ID: ${article.id} with ID: ${newArticle.id} (version ${newArticle.version})`,
+    );
+    return newArticle;
+  }
+
+  async regenerateSummary(article: Article, feedback?: string): Promise<void> {
+    this.logger.log(`Regenerating summary for article ID: ${article.id}`);
+
+    const summary = await this.aiService.generateTextFromAi(
+      'summary',
+      appendEditorFeedback(createSummaryPrompts(article.content), feedback),
+      { bypassCache: true },
+    );
+
+    // 요약은 다른 테이블에서 참조하지 않으므로 그대로 덮어씀
+    await this.prismaService.article.update({
+      where: { id: article.id },
+      data: { summary, updatedAt: new Date() },
+    });
+
+    this.logger.log(`Updated summary for article ID: ${article.id}`);
+  }
+
+  /**
+   * 아티클의 퀴즈를 새 버전으로 교체합니다. 기존 퀴즈는 풀이 기록이 참조하므로 `deletedAt`만 기록합니다.
+   */
+  async regenerateQuizzes(article: Article, feedback?: string): Promise<void> {
+    this.logger.log(`Regenerating quizzes for article ID: ${article.id}`);
+
+    const shuffler = new QuizShuffleService(
+      `article:${article.id}:quizzes`,
+      await this.countAnswerPositions(article.keywordId, article.id),
     );
+    const quizzes = (
+      await this.generateQuizSet(article.content, feedback, {
+        bypassCache: true,
+      })
+    ).map((quiz) => shuffler.shuffle(quiz));
 
-    this.logger.log('Saving quizzes to database');
     await this.prismaService.$transaction(async (prisma) => {
-      await Promise.all(
-        quizzes.map(async ({ articleId, quizzes }) => {
-          for (const { answer, ...rest } of quizzes) {
-            await prisma.quiz.create({
-              data: { ...rest, answer: String(answer), articleId },
-            });
-          }
-        }),
+      const { _max } = await prisma.quiz.aggregate({
+        where: { articleId: article.id },
+        _max: { version: true },
+      });
+
+      await this.softDeleteQuizzes(prisma, article.id);
+      await this.saveQuizzes(
+        prisma,
+        article.id,
+        quizzes,
+        (_max.version ?? 0) + 1,
       );
     });
 
-    this.logger.log(`Successfully saved ${totalQuizCount} quizzes to database`);
+    this.logger.log(`Replaced quizzes for article ID: ${article.id}`);
+  }
+
+  /**
+   * 아티클과 퀴즈를 soft delete 합니다.
+   * 동시에 실행된 다른 재생성 job이 먼저 교체했다면 예외를 던져 중복 버전이 생기지 않도록 합니다.
+   */
+  private async softDeleteArticle(
+    prisma: Prisma.TransactionClient,
+    articleId: bigint,
+  ): Promise<void> {
+    const now = new Date();
+
+    const { count } = await prisma.article.updateMany({
+      where: { id: articleId, deletedAt: null },
+      data: { deletedAt: now, updatedAt: now },
+    });
+
+    if (count === 0) {
+      throw new Error(ERROR_MESSAGE.ARTICLE_NOT_FOUND);
+    }
+
+    await this.softDeleteQuizzes(prisma, articleId, now);
+  }
+
+  private async softDeleteQuizzes(
+    prisma: Prisma.TransactionClient,
+    articleId: bigint,
+    now = new Date(),
+  ): Promise<void> {
+    await prisma.quiz.updateMany({
+      where: { articleId, deletedAt: null },
+      data: { deletedAt: now, updatedAt: now },
+    });
   }
 
   private generateQuery(keywordInfo: KeywordInfo): string {
@@ -326,6 +1109,7 @@ export class BatchService {
       },
       where: {
         keywordId,
+        deletedAt: null,
       },
     });
 
@@ -344,6 +1128,7 @@ export class BatchService {
         id: true,
       },
       where: {
+        deletedAt: null,
         Article: {
           keywordId,
         },
@@ -0,0 +1,133 @@
+import { ERROR_MESSAGE } from 'src/constants/error-message';
+import { BM25Service } from './bm25.service';
+import { CrawledDocument, Tokenizer } from './types/types';
+
+/** 손 계산을 단순하게 하기 위해 공백 기준으로만 분리하는 Tokenizer */
+const whitespaceTokenizer: Tokenizer = {
+  tokenize: (text) => text.split(/\s+/).filter((token) => token.length > 0),
+};
+
+const createDocument = (id: string, content: string): CrawledDocument => ({
+  id,
+  url: `https://example.com/${id}`,
+  title: id,
+  content,
+  page: null,
+  crawledAt: new Date(),
+});
+
+/**
+ * 테스트 문서 (k1 = 1.5, b = 0.75)
+ * - d1: "apple banana apple"      |D| = 3
+ * - d2: "banana cherry"           |D| = 2
+ * - d3: "cherry date elder fig"   |D| = 4
+ * N = 3, avgdl = 3
+ */
+const createService = () =>
+  new BM25Service(
+    [
+      createDocument('d1', 'apple banana apple'),
+      createDocument('d2', 'banana cherry'),
+      createDocument('d3', 'cherry date elder fig'),
+    ],
+    {},
+    whitespaceTokenizer,
+  );
+
+const scoreOf = (service: BM25Service, query: string, id: string) =>
+  service.search(query, service.size).find(({ document }) => document.id === id)
+    ?.score;
+
+describe('BM25Service', () => {
+  it('단일 문서에만 등장하는 term의 점수를 계산한다', () => {
+    // IDF = ln((3 - 1 + 0.5) / (1 + 0.5) + 1) = ln(8 / 3) ≈ 0.980829
+    // d1: tf = 2 → 2 * 2.5 / (2 + 1.5 * (0.25 + 0.75 * 3 / 3)) = 5 / 3.5
+    // score ≈ 0.980829 * 1.428571 ≈ 1.401185
+    const results = createService().search('apple');
+
+    expect(results).toHaveLength(1);
+    expect(results[0].document.id).toBe('d1');
+    expect(results[0].score).toBeCloseTo(1.401185, 5);
+  });
+
+  it('여러 문서에 등장하는 term의 DF를 정확히 계산한다', () => {
+    // banana의 DF = 2 → IDF = ln((3 - 2 + 0.5) / (2 + 0.5) + 1) = ln(1.6) ≈ 0.470004
+    // d1: tf = 1, |D| = 3 → 2.5 / (1 + 1.5 * 1) = 1
+    // d2: tf = 1, |D| = 2 → 2.5 / (1 + 1.5 * 0.75) = 1.176471
+    const service = createService();
+
+    expect(scoreOf(service, 'banana', 'd1')).toBeCloseTo(0.470004, 5);
+    expect(scoreOf(service, 'banana', 'd2')).toBeCloseTo(0.552945, 5);
+    expect(service.search('banana').map(({ document }) => document.id)).toEqual(
+      ['d2', 'd1'],
+    );
+  });
+
+  it('쿼리의 각 term 점수를 합산한다', () => {
+    // apple(1.401185) + banana(0.470004)
+    expect(scoreOf(createService(), 'apple banana', 'd1')).toBeCloseTo(
+      1.871188,
+      5,
+    );
+  });
+
+  it('문서를 제거하면 N, DF, avgdl을 다시 계산한다', () => {
+    // 남은 문서: d2(2), d3(4) → N = 2, avgdl = 3, banana의 DF = 1
+    // IDF = ln((2 - 1 + 0.5) / (1 + 0.5) + 1) = ln(2) ≈ 0.693147
+    // d2: 2.5 / (1 + 1.5 * 0.75) = 1.176471 → score ≈ 0.815467
+    const service = createService();
+
+    expect(service.removeDocument('d1')).toBe(true);
+    expect(service.removeDocument('d1')).toBe(false);
+    expect(service.size).toBe(2);
+    expect(service.search('apple')).toEqual([]);
+    expect(scoreOf(service, 'banana', 'd2')).toBeCloseTo(0.815467, 5);
+  });
+
+  it('문서를 점진적으로 추가하면 인덱스를 갱신한다', () => {
+    // d1 제거 후 d4("banana banana") 추가 → |D| = 2, 2, 4 → N = 3, avgdl = 8 / 3
+    // banana의 DF = 2 → IDF ≈ 0.470004
+    // d4: tf = 2 → 5 / (2 + 1.5 * (0.25 + 0.75 * 2 / (8 / 3))) = 5 / 3.21875
+    // d2: tf = 1 → 2.5 / (1 + 1.5 * (0.25 + 0.75 * 2 / (8 / 3)))
+    const service = createService();
+    service.removeDocument('d1');
+    service.addDocuments([createDocument('d4', 'banana banana')]);
+
+    expect(scoreOf(service, 'banana', 'd4')).toBeCloseTo(0.730103, 5);
+    expect(scoreOf(service, 'banana', 'd2')).toBeCloseTo(0.529582, 5);
+  });
+
+  it('제목이 같은 문서도 ID가 다르면 각각 색인한다', () => {
+    const service = new BM25Service(
+      [
+        { ...createDocument('a', 'inflation rate'), title: 'same' },
+        { ...createDocument('b', 'inflation target'), title: 'same' },
+      ],
+      {},
+      whitespaceTokenizer,
+    );
+
+    expect(service.search('inflation')).toHaveLength(2);
+  });
+
+  it('중복된 문서 ID는 색인하지 않고 예외를 던진다', () => {
+    const service = createService();
+
+    expect(() =>
+      service.addDocuments([createDocument('d1', 'apple apple')]),
+    ).toThrow(ERROR_MESSAGE.BM25_DUPLICATE_DOCUMENT_ID);
+    expect(() =>
+      service.addDocuments([
+        createDocument('d5', 'kiwi'),
+        createDocument('d5', 'kiwi'),
+      ]),
+    ).toThrow(ERROR_MESSAGE.BM25_DUPLICATE_DOCUMENT_ID);
+    expect(service.size).toBe(3);
+  });
+
+  it('문서가 없으면 빈 결과를 반환한다', () => {
+    expect(
+      new BM25Service([], {}, whitespaceTokenizer).search('apple'),
+    ).toEqual([]);
+  });
+});
@@ -1,10 +1,19 @@
-import { BM25Config, CrawledDocument } from './types/types';
+import { ERROR_MESSAGE } from 'src/constants/error-message';
+import { KoreanTokenizer } from './tokenizers/korean-tokenizer';
+import {
+  BM25Config,
+  BM25SearchResult,
+  CrawledDocument,
+  Tokenizer,
+} from './types/types';
 
 /**
  * BM25 (Best Matching 25) 랭킹 알고리즘을 구현한 서비스 클래스입니다.
  *
  * 이 클래스는 생성자에서 문서 컬렉션을 받아 초기화(인덱싱)를 수행하며,
  * 'search' 메서드를 통해 쿼리에 가장 관련성이 높은 문서를 찾아 반환합니다.
+ * 인덱스는 문서의 고유 ID(`doc.id`)를 키로 관리되며,
+ * `addDocuments`/`removeDocument`를 통해 점진적으로 갱신할 수 있습니다.
  *
  * @remarks
  * ### BM25 기본 공식:
@@ -17,116 +26,157 @@ import { BM25Config, CrawledDocument } from './types/types';
  *
  * 1. **IDF(qi) (Inverse Document Frequency)**:
  * - Term(qi)의 희소성. `calculateIDF(qi)` 메서드에서 계산됩니다.
- * - `N`: 전체 문서 수 (`this.documents.length`).
+ * - `N`: 전체 문서 수 (`this.documents.size`).
  * - `n(qi)`: Term `qi`를 포함하는 문서 수 (`this.documentCntsHasTerm.get(qi)`).
  *
  * 2. **Term 빈도 및 문서 길이 가중치**:
- * - `f(qi, D)`: 문서 D 내 Term `qi`의 빈도 (`this.termFrequencies.get(D.title).get(qi)`).
- * - `|D|`: 문서 D의 길이 (토큰 수) (`this.docLengths.get(D.title)`).
- * - `avgdl`: 평균 문서 길이 (`this.avgDocLength`).
+ * - `f(qi, D)`: 문서 D 내 Term `qi`의 빈도 (`this.termFrequencies.get(D.id).get(qi)`).
+ * - `|D|`: 문서 D의 길이 (토큰 수) (`this.docLengths.get(D.id)`).
+ * - `avgdl`: 평균 문서 길이 (`this.totalDocLength / this.documents.size`).
  *
  * 3. **하이퍼파라미터 (`this.config`)**:
  * - `k1`: Term 빈도 포화도 (기본값 1.5).
  * - `b`: 문서 길이 정규화 강도 (기본값 0.75).
+ *
+ * 4. **토큰화 (`this.tokenizer`)**:
+ * - 문서와 쿼리는 동일한 `Tokenizer`로 분리됩니다. 기본값은 `KoreanTokenizer`입니다.
  */
 export class BM25Service {
-  /** 원본 문서 데이터 배열 */
-  private documents: CrawledDocument[];
+  /** 문서 ID를 키로, 원본 문서 데이터를 저장 */
+  private documents: Map<string, CrawledDocument>; // docId -> document
 
   /** BM25 하이퍼파라미터 (k1, b) */
   private config: BM25Config;
 
-  /** 전체 문서의 평균 길이 (avgdl) */
-  private avgDocLength: number;
+  /** 전체 문서 길이의 합. 평균 문서 길이(avgdl) 계산에 사용 */
+  private totalDocLength: number;
 
-  /** 문서 제목(title)을 키로, 해당 문서의 토큰 수(길이, |D|)를 값으로 저장 */
-  private docLengths: Map<string, number>; //docTitle -> docLength
+  /** 문서 ID를 키로, 해당 문서의 토큰 수(길이, |D|)를 값으로 저장 */
+  private docLengths: Map<string, number>; // docId -> docLength
 
-  /** 문서 제목(title)과 term을 키로, 해당 term의 문서 내 빈도(f(qi, D))를 저장 */
-  private termFrequencies: Map<string, Map<string, number>>; // docTitle -> term -> frequency
+  /** 문서 ID와 term을 키로, 해당 term의 문서 내 빈도(f(qi, D))를 저장 */
+  private termFrequencies: Map<string, Map<string, number>>; // docId -> term -> frequency
 
   /** Term을 키로, 해당 term을 포함하는 문서의 수(n(qi))를 저장 */
   private documentCntsHasTerm: Map<string, number>; // term -> number of docs containing term
 
-  /** 계산된 IDF 값을 캐싱하여 중복 계산을 방지 */
+  /** 계산된 IDF 값을 캐싱하여 중복 계산을 방지. 문서가 추가/삭제되면 초기화됩니다. */
   private idfCache: Map<string, number>;
 
+  /** 문서와 쿼리를 토큰으로 분리하는 Tokenizer */
+  private tokenizer: Tokenizer;
+
   constructor(
-    documents: CrawledDocument[],
+    documents: CrawledDocument[] = [],
     config: Partial<BM25Config> = { k1: 1.5 },
+    tokenizer: Tokenizer = new KoreanTokenizer(),
   ) {
-    this.documents = documents;
+    this.tokenizer = tokenizer;
     this.config = {
       k1: config.k1 ?? 1.5,
       b: config.b ?? 0.75,
     };
+    this.documents = new Map();
     this.docLengths = new Map();
     this.termFrequencies = new Map();
     this.documentCntsHasTerm = new Map();
     this.idfCache = new Map();
-    this.avgDocLength = 0;
+    this.totalDocLength = 0;
 
-    this.initialize();
+    this.addDocuments(documents);
+  }
+
+  /** 인덱싱된 문서 수 (N) */
+  get size(): number {
+    return this.documents.size;
   }
 
   /**
-   * 생성자에서 호출되며, 모든 문서에 대해 초기 인덱싱을 수행합니다.
+   * 문서를 인덱스에 추가합니다.
    * - 각 문서의 길이 계산 (`docLengths`)
    * - Term 빈도(TF) 계산 (`termFrequencies`)
    * - 문서 빈도(DF) 계산 (`documentCntsHasTerm`)
-   * - 전체 문서의 평균 길이 계산 (`avgDocLength`)
+   *
+   * 이미 인덱싱된 ID 또는 같은 배치 내에서 중복된 ID가 있으면 아무것도 추가하지 않고 예외를 던집니다.
    */
-  private initialize(): void {
-    let totalLength = 0;
+  addDocuments(documents: CrawledDocument[]): void {
+    const ids = new Set<string>();
+    for (const { id } of documents) {
+      if (this.documents.has(id) || ids.has(id)) {
+        throw new Error(ERROR_MESSAGE.BM25_DUPLICATE_DOCUMENT_ID);
+      }
+      ids.add(id);
+    }
 
-    for (const doc of this.documents) {
+    for (const doc of documents) {
       const tokens = this.tokenize(doc.content);
-      const docLength = tokens.length;
 
-      this.docLengths.set(doc.title, docLength);
-      totalLength += docLength;
+      this.documents.set(doc.id, doc);
+      this.docLengths.set(doc.id, tokens.length);
+      this.totalDocLength += tokens.length;
 
       //용어 빈도 계산
       const termFreq = new Map<string, number>();
       for (const token of tokens) {
         termFreq.set(token, (termFreq.get(token) ?? 0) + 1);
       }
-      this.termFrequencies.set(doc.title, termFreq);
+      this.termFrequencies.set(doc.id, termFreq);
 
       //특정 용어를 갖고 있는 문서 수 계산
-      const uniqueTerms = new Set(tokens);
-      for (const term of uniqueTerms) {
+      for (const term of termFreq.keys()) {
         this.documentCntsHasTerm.set(
           term,
-          this.documentCntsHasTerm.get(term) ?? 0 + 1,
+          (this.documentCntsHasTerm.get(term) ?? 0) + 1,
         );
       }
     }
 
-    // 평균 문서 길이 계산
-    this.avgDocLength = totalLength / this.documents.length;
+    this.idfCache.clear();
   }
 
-  search(query: string, topK: number = 7) {
+  /**
+   * 문서를 인덱스에서 제거하고 DF/평균 문서 길이를 갱신합니다.
+   * @returns 제거된 문서가 있으면 true
+   */
+  removeDocument(id: string): boolean {
+    const termFreq = this.termFrequencies.get(id);
+    if (!termFreq) return false;
+
+    for (const term of termFreq.keys()) {
+      const df = (this.documentCntsHasTerm.get(term) ?? 0) - 1;
+
+      if (df > 0) {
+        this.documentCntsHasTerm.set(term, df);
+      } else {
+        this.documentCntsHasTerm.delete(term);
+      }
+    }
+
+    this.totalDocLength -= this.docLengths.get(id) ?? 0;
+    this.documents.delete(id);
+    this.docLengths.delete(id);
+    this.termFrequencies.delete(id);
+    this.idfCache.clear();
+
+    return true;
+  }
+
+  search(query: string, topK: number = 7): BM25SearchResult[] {
     const queryTerms = this.tokenize(query);
 
-    const results = this.documents.map((doc) => ({
+    const results = Array.from(this.documents.values()).map((doc) => ({
       document: doc,
-      score: this.caculateScore(doc.title, queryTerms),
+      score: this.caculateScore(doc.id, queryTerms),
     }));
 
     return results
+      .filter((result) => result.score > 0)
       .sort((a, b) => b.score - a.score)
-      .slice(0, topK)
-      .filter((result) => result.score > 0);
+      .slice(0, topK);
   }
 
   private tokenize(text: string): string[] {
-    return text
-      .toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .split(/\s+/)
-      .filter((token) => token.length > 0);
+    return this.tokenizer.tokenize(text);
   }
 
   private calculateIDF(term: string): number {
@@ -134,7 +184,7 @@ export class BM25Service {
       return this.idfCache.get(term)!;
     }
 
-    const N = this.documents.length; // 문서의 총 개수
+    const N = this.documents.size; // 문서의 총 개수
     const df = this.documentCntsHasTerm.get(term) ?? 0; // term 을 갖고 있는 문서 개수
 
     const idf = Math.log((N - df + 0.5) / (df + 0.5) + 1);
@@ -143,11 +193,13 @@ export class BM25Service {
     return idf;
   }
 
-  private caculateScore(title: string, queryTerm: string[]): number {
-    const docLength = this.docLengths.get(title) ?? 0;
-    const termFreq = this.termFrequencies.get(title);
+  private caculateScore(id: string, queryTerm: string[]): number {
+    const docLength = this.docLengths.get(id) ?? 0;
+    const termFreq = this.termFrequencies.get(id);
+
+    if (!termFreq || this.totalDocLength === 0) return 0;
 
-    if (!termFreq) return 0;
+    const avgDocLength = this.totalDocLength / this.documents.size;
 
     let score = 0;
 
@@ -160,8 +212,7 @@ export class BM25Service {
       const idf = this.calculateIDF(term);
 
       const numerator = tf * (k1 + 1);
-      const denominator =
-        tf + k1 * (1 - b + b * (docLength / this.avgDocLength));
+      const denominator = tf + k1 * (1 - b + b * (docLength / avgDocLength));
 
       score += idf * (numerator / denominator);
     }
@@ -0,0 +1,194 @@
+import { ConfigService } from '@nestjs/config';
+import { EnvSchema } from 'src/config/validate-env';
+import { ERROR_MESSAGE } from 'src/constants/error-message';
+import { RedisService } from 'src/redis/redis.service';
+import { httpRequest } from 'src/utils/http-client';
+import { BraveSearchService } from './brave-search.service';
+
+jest.mock('src/utils/http-client', () => ({ httpRequest: jest.fn() }));
+
+const mockedHttpRequest = jest.mocked(httpRequest);
+
+const DAILY_KEY = 'search:brave:quota:daily:2025-03-31';
+const MONTHLY_KEY = 'search:brave:quota:monthly:2025-03';
+
+/**
+ * 검색 캐시와 호출 카운터에 사용하는 명령만 구현한 Redis
+ * `multi()`의 명령은 `exec()` 시점에 한 번에 실행됩니다.
+ */
+class FakeRedis {
+  readonly store = new Map<string, string>();
+
+  readonly ttls = new Map<string, number>();
+
+  get(key: string) {
+    return Promise.resolve(this.store.get(key) ?? null);
+  }
+
+  set(key: string, value: string, _mode: 'EX', seconds: number) {
+    this.store.set(key, value);
+    this.ttls.set(key, seconds);
+    return Promise.resolve('OK');
+  }
+
+  multi() {
+    const commands: (() => number)[] = [];
+    const pipeline = {
+      incr: (key: string) => {
+        commands.push(() => this.incrBy(key, 1));
+        return pipeline;
+      },
+      decr: (key: string) => {
+        commands.push(() => this.incrBy(key, -1));
+        return pipeline;
+      },
+      expire: (key: string, seconds: number) => {
+        commands.push(() => {
+          this.ttls.set(key, seconds);
+          return 1;
+        });
+        return pipeline;
+      },
+      exec: () => Promise.resolve(commands.map((command) => [null, command()])),
+    };
+
+    return pipeline;
+  }
+
+  private incrBy(key: string, amount: number) {
+    const value = Number(this.store.get(key) ?? 0) + amount;
+    this.store.set(key, String(value));
+    return value;
+  }
+}
+
+const createResponse = (titles: string[]) =>
+  Response.json({
+    web: {
+      results: titles.map((title) => ({
+        title,
+        url: `https://example.com/${title}`,
+        description: `${title} 설명`,
+        age: '1일 전',
+      })),
+    },
+  });
+
+describe('BraveSearchService', () => {
+  let redis: FakeRedis;
+
+  const createService = (quota: {
+    BRAVE_SEARCH_DAILY_QUOTA?: number;
+    BRAVE_SEARCH_MONTHLY_QUOTA?: number;
+  }) => {
+    const config: Record<string, unknown> = {
+      BRAVE_SEARCH_API_KEY: 'test-key',
+      BRAVE_SEARCH_CACHE_TTL_SECONDS: 3600,
+      ...quota,
+    };
+
+    return new BraveSearchService(
+      {
+        get: (key: string) => config[key],
+      } as unknown as ConfigService<EnvSchema, true>,
+      redis as unknown as RedisService,
+    );
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-03-31T12:00:00Z') });
+    redis = new FakeRedis();
+    mockedHttpRequest.mockReset();
+    mockedHttpRequest.mockImplementation(() =>
+      Promise.resolve(createResponse(['기준금리'])),
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('검색 결과를 캐시에 저장하고 정규화한 같은 쿼리는 API를 호출하지 않는다', async () => {
+    const service = createService({});
+
+    const first = await service.searchByKeyword('기준금리  인상');
+    const cached = await service.searchByKeyword(' 기준금리 인상 ');
+
+    expect(first).toEqual([
+      {
+        title: '기준금리',
+        url: 'https://example.com/기준금리',
+        description: '기준금리 설명',
+      },
+    ]);
+    expect(cached).toEqual(first);
+    expect(mockedHttpRequest).toHaveBeenCalledTimes(1);
+    expect([...redis.ttls.values()]).toContain(3600);
+    expect(redis.store.get(DAILY_KEY)).toBe('1');
+  });
+
+  it('API 호출마다 일/월 카운터를 증가시키고 만료 시간을 설정한다', async () => {
+    const service = createService({});
+
+    await service.searchByKeyword('기준금리');
+    await service.searchByKeyword('물가');
+
+    expect(redis.store.get(DAILY_KEY)).toBe('2');
+    expect(redis.store.get(MONTHLY_KEY)).toBe('2');
+    expect(redis.ttls.get(DAILY_KEY)).toBeGreaterThan(24 * 3600);
+    expect(redis.ttls.get(MONTHLY_KEY)).toBeGreaterThan(31 * 24 * 3600);
+  });
+
+  it('일 한도를 넘으면 증가분을 되돌리고 API를 호출하지 않는다', async () => {
+    const service = createService({ BRAVE_SEARCH_DAILY_QUOTA: 1 });
+
+    await service.searchByKeyword('기준금리');
+    await expect(service.searchByKeyword('물가')).rejects.toThrow(
+      ERROR_MESSAGE.BRAVE_SEARCH_DAILY_QUOTA_EXCEEDED,
+    );
+
+    expect(mockedHttpRequest).toHaveBeenCalledTimes(1);
+    expect(redis.store.get(DAILY_KEY)).toBe('1');
+    expect(redis.store.get(MONTHLY_KEY)).toBe('1');
+  });
+
+  it('월 한도를 넘으면 일/월 카운터를 모두 되돌린다', async () => {
+    redis.store.set(MONTHLY_KEY, '10');
+    const service = createService({
+      BRAVE_SEARCH_DAILY_QUOTA: 5,
+      BRAVE_SEARCH_MONTHLY_QUOTA: 10,
+    });
+
+    await expect(service.searchByKeyword('기준금리')).rejects.toThrow(
+      ERROR_MESSAGE.BRAVE_SEARCH_MONTHLY_QUOTA_EXCEEDED,
+    );
+
+    expect(mockedHttpRequest).not.toHaveBeenCalled();
+    expect(redis.store.get(DAILY_KEY)).toBe('0');
+    expect(redis.store.get(MONTHLY_KEY)).toBe('10');
+  });
+
+  it('동시에 호출해도 한도만큼만 API를 호출한다', async () => {
+    const service = createService({ BRAVE_SEARCH_DAILY_QUOTA: 2 });
+
+    const results = await Promise.allSettled(
+      ['기준금리', '물가', '환율', '대출'].map((query) =>
+        service.searchByKeyword(query),
+      ),
+    );
+
+    expect(results.filter(({ status }) => status === 'fulfilled')).toHaveLength(
+      2,
+    );
+    expect(mockedHttpRequest).toHaveBeenCalledTimes(2);
+    expect(redis.store.get(DAILY_KEY)).toBe('2');
+  });
+
+  it('캐시된 쿼리는 한도를 넘어도 결과를 반환한다', async () => {
+    const service = createService({ BRAVE_SEARCH_DAILY_QUOTA: 1 });
+
+    await service.searchByKeyword('기준금리');
+    await expect(service.searchByKeyword('기준금리')).resolves.toHaveLength(1);
+    expect(redis.store.get(DAILY_KEY)).toBe('1');
+  });
+});
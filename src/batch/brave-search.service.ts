@@ -1,24 +1,49 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
 import { BATCH_OPTIONS } from 'src/constants/batch-options';
 import { ERROR_MESSAGE } from 'src/constants/error-message';
-import { fetchWithTimeout } from 'src/utils/fetch-with-timeout';
+import { RedisService } from 'src/redis/redis.service';
+import { httpRequest } from 'src/utils/http-client';
 import { EnvSchema } from '../config/validate-env';
-import { SearchResult } from './types/types';
+import { SearchProvider, SearchResult } from './types/types';
+
+/** 일/월 호출 카운터 키의 만료 시간 (기간이 끝난 뒤 정리되도록 여유를 둠) */
+const DAILY_COUNTER_TTL_SECONDS = 2 * 24 * 3600;
+const MONTHLY_COUNTER_TTL_SECONDS = 32 * 24 * 3600;
 
 @Injectable()
-export class BraveSearchService {
-  constructor(private readonly configService: ConfigService<EnvSchema, true>) {}
+export class BraveSearchService implements SearchProvider {
+  readonly name = 'brave';
+
+  private readonly logger = new Logger(BraveSearchService.name);
+
+  constructor(
+    private readonly configService: ConfigService<EnvSchema, true>,
+    private readonly redisService: RedisService,
+  ) {}
 
-  async searchByKeyword(keyword: string) {
+  async searchByKeyword(keyword: string): Promise<SearchResult[]> {
     const query = `${keyword}`;
+    const country = BATCH_OPTIONS.BRAVE_SEARCH_COUNTRY;
+    const searchLang = BATCH_OPTIONS.BRAVE_SEARCH_LANG;
+
+    const cacheKey = this.getCacheKey(query, country, searchLang);
+    const cached = await this.redisService.get(cacheKey);
+    if (cached) {
+      this.logger.log(`Cache hit for Brave search query: ${query}`);
+      return JSON.parse(cached) as SearchResult[];
+    }
+
+    await this.reserveQuota();
+
     const requestUrl = new URL(BATCH_OPTIONS.BRAVE_SEARCH_BASEURL);
 
     requestUrl.searchParams.set('q', query);
-    requestUrl.searchParams.set('country', 'KR');
-    requestUrl.searchParams.set('search_lang', 'ko');
+    requestUrl.searchParams.set('country', country);
+    requestUrl.searchParams.set('search_lang', searchLang);
 
-    const response = await fetchWithTimeout(requestUrl, {
+    const response = await httpRequest(requestUrl, {
       headers: {
         'X-Subscription-Token': this.configService.get<string>(
           'BRAVE_SEARCH_API_KEY',
@@ -34,10 +59,77 @@ export class BraveSearchService {
     // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
     const results = (await response.json()).web.results as SearchResult[];
 
-    return results.map(({ title, url, description }) => ({
+    const searchResults = results.map(({ title, url, description }) => ({
       title,
       url,
       description,
     }));
+
+    await this.redisService.set(
+      cacheKey,
+      JSON.stringify(searchResults),
+      'EX',
+      this.configService.get<number>('BRAVE_SEARCH_CACHE_TTL_SECONDS'),
+    );
+
+    return searchResults;
+  }
+
+  /**
+   * 일/월 호출 카운터를 증가시키고, 설정된 한도를 넘으면 증가분을 되돌린 뒤 예외를 던집니다.
+   * 카운터 증가와 검사를 한 번에 수행하여 여러 worker가 동시에 호출해도 한도를 넘지 않습니다.
+   */
+  private async reserveQuota(): Promise<void> {
+    const now = new Date().toISOString();
+    const dailyKey = `search:brave:quota:daily:${now.slice(0, 10)}`;
+    const monthlyKey = `search:brave:quota:monthly:${now.slice(0, 7)}`;
+
+    const results = await this.redisService
+      .multi()
+      .incr(dailyKey)
+      .expire(dailyKey, DAILY_COUNTER_TTL_SECONDS)
+      .incr(monthlyKey)
+      .expire(monthlyKey, MONTHLY_COUNTER_TTL_SECONDS)
+      .exec();
+
+    const dailyCount = Number(results?.[0]?.[1] ?? 0);
+    const monthlyCount = Number(results?.[2]?.[1] ?? 0);
+
+    const dailyQuota = this.configService.get<number | undefined>(
+      'BRAVE_SEARCH_DAILY_QUOTA',
+    );
+    const monthlyQuota = this.configService.get<number | undefined>(
+      'BRAVE_SEARCH_MONTHLY_QUOTA',
+    );
+
+    const isDailyExceeded = dailyQuota !== undefined && dailyCount > dailyQuota;
+    const isMonthlyExceeded =
+      monthlyQuota !== undefined && monthlyCount > monthlyQuota;
+
+    if (isDailyExceeded || isMonthlyExceeded) {
+      await this.redisService.multi().decr(dailyKey).decr(monthlyKey).exec();
+
+      this.logger.warn(
+        `Brave search quota exceeded (daily: ${dailyCount - 1}/${dailyQuota ?? '-'}, monthly: ${monthlyCount - 1}/${monthlyQuota ?? '-'})`,
+      );
+      throw new Error(
+        isDailyExceeded
+          ? ERROR_MESSAGE.BRAVE_SEARCH_DAILY_QUOTA_EXCEEDED
+          : ERROR_MESSAGE.BRAVE_SEARCH_MONTHLY_QUOTA_EXCEEDED,
+      );
+    }
+  }
+
+  private getCacheKey(query: string, country: string, searchLang: string) {
+    const normalizedQuery = query
+      .normalize('NFC')
+      .trim()
+      .toLowerCase()
+      .replace(/\s+/g, ' ');
+    const queryHash = createHash('sha256')
+      .update(normalizedQuery)
+      .digest('hex');
+
+    return `search:brave:${country}:${searchLang}:${queryHash}`;
   }
 }
@@ -0,0 +1,132 @@
+import { CrawlSchedulerService } from './crawl-scheduler.service';
+
+/** 시작 여부를 기록하고, 직접 완료시킬 수 있는 작업을 만듭니다. */
+const createTasks = () => {
+  const started: string[] = [];
+  const finishers = new Map<string, () => void>();
+
+  const task = (name: string) => () => {
+    started.push(name);
+    return new Promise<string>((resolve) =>
+      finishers.set(name, () => resolve(name)),
+    );
+  };
+  const finish = (name: string) => finishers.get(name)?.();
+
+  return { started, task, finish };
+};
+
+describe('CrawlSchedulerService', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('호스트별 동시 요청 수를 넘는 요청은 앞선 요청이 끝날 때까지 기다린다', async () => {
+    const scheduler = new CrawlSchedulerService({
+      perHostConcurrency: 2,
+      defaultDelayMs: 0,
+    });
+    const { started, task, finish } = createTasks();
+
+    const results = ['a1', 'a2', 'a3'].map((name) =>
+      scheduler.schedule('a.com', task(name)),
+    );
+    const other = scheduler.schedule('b.com', task('b1'));
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(started).toEqual(['a1', 'a2', 'b1']);
+
+    finish('a1');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(started).toEqual(['a1', 'a2', 'b1', 'a3']);
+
+    ['a2', 'a3', 'b1'].forEach(finish);
+    await expect(Promise.all([...results, other])).resolves.toEqual([
+      'a1',
+      'a2',
+      'a3',
+      'b1',
+    ]);
+  });
+
+  it('전체 동시 요청 수는 호스트와 관계없이 제한한다', async () => {
+    const scheduler = new CrawlSchedulerService({
+      maxConcurrency: 2,
+      defaultDelayMs: 0,
+    });
+    const { started, task, finish } = createTasks();
+
+    for (const host of ['a.com', 'b.com', 'c.com']) {
+      void scheduler.schedule(host, task(host));
+    }
+    await jest.advanceTimersByTimeAsync(0);
+    expect(started).toEqual(['a.com', 'b.com']);
+
+    finish('b.com');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(started).toEqual(['a.com', 'b.com', 'c.com']);
+  });
+
+  it('같은 호스트의 요청은 시작 시각 기준으로 요청 간격을 둔다', async () => {
+    const scheduler = new CrawlSchedulerService({
+      perHostConcurrency: 2,
+      defaultDelayMs: 500,
+    });
+    const { started, task, finish } = createTasks();
+
+    void scheduler.schedule('a.com', task('a1'));
+    void scheduler.schedule('a.com', task('a2'));
+    void scheduler.schedule('b.com', task('b1'));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(started).toEqual(['a1', 'b1']);
+
+    await jest.advanceTimersByTimeAsync(499);
+    expect(started).toEqual(['a1', 'b1']);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(started).toEqual(['a1', 'b1', 'a2']);
+
+    // 앞선 요청이 끝나도 간격이 지나기 전에는 시작하지 않음
+    void scheduler.schedule('a.com', task('a3'));
+    finish('a1');
+    await jest.advanceTimersByTimeAsync(499);
+    expect(started).toEqual(['a1', 'b1', 'a2']);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(started).toEqual(['a1', 'b1', 'a2', 'a3']);
+  });
+
+  it('요청마다 지정한 간격(Crawl-delay)을 기본 간격보다 우선한다', async () => {
+    const scheduler = new CrawlSchedulerService({
+      perHostConcurrency: 2,
+      defaultDelayMs: 500,
+    });
+    const { started, task } = createTasks();
+
+    void scheduler.schedule('a.com', task('a1'), 2000);
+    void scheduler.schedule('a.com', task('a2'));
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(started).toEqual(['a1']);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(started).toEqual(['a1', 'a2']);
+  });
+
+  it('작업이 실패해도 슬롯을 반환한다', async () => {
+    const scheduler = new CrawlSchedulerService({
+      perHostConcurrency: 1,
+      defaultDelayMs: 0,
+    });
+
+    await expect(
+      scheduler.schedule('a.com', () => Promise.reject(new Error('failed'))),
+    ).rejects.toThrow('failed');
+    await expect(
+      scheduler.schedule('a.com', () => Promise.resolve('ok')),
+    ).resolves.toBe('ok');
+  });
+});
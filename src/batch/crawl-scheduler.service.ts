@@ -0,0 +1,97 @@
+import { CrawlSchedulerConfig } from './types/types';
+
+type HostState = {
+  /** 현재 실행 중인 요청 수 */
+  active: number;
+  /** 다음 요청을 시작할 수 있는 시각 (epoch ms) */
+  nextStartAt: number;
+};
+
+/**
+ * 크롤링 요청을 호스트 단위로 조절하는 스케줄러입니다.
+ *
+ * @remarks
+ * - 전체 동시 요청 수는 `maxConcurrency`, 호스트별 동시 요청 수는 `perHostConcurrency`로 제한합니다.
+ * - 같은 호스트에 대한 요청은 시작 시각 기준으로 최소 `delayMs` 간격을 둡니다.
+ *   robots.txt의 `Crawl-delay`가 있으면 그 값을, 없으면 `defaultDelayMs`를 사용합니다.
+ * - 슬롯이 없는 요청은 대기열에서 기다리며, 실행 중인 요청이 끝날 때마다 다시 시도합니다.
+ */
+export class CrawlSchedulerService {
+  private config: CrawlSchedulerConfig;
+
+  private activeCount = 0;
+
+  private hosts = new Map<string, HostState>();
+
+  private waiters: (() => void)[] = [];
+
+  constructor(config: Partial<CrawlSchedulerConfig> = {}) {
+    this.config = {
+      maxConcurrency: config.maxConcurrency ?? 8,
+      perHostConcurrency: config.perHostConcurrency ?? 2,
+      defaultDelayMs: config.defaultDelayMs ?? 500,
+    };
+  }
+
+  /**
+   * 호스트의 동시성 제한과 요청 간격을 지켜 작업을 실행합니다.
+   * @param host 요청 대상 호스트
+   * @param task 실행할 작업
+   * @param delayMs 같은 호스트의 요청 사이 최소 간격 (기본값: `defaultDelayMs`)
+   */
+  async schedule<T>(
+    host: string,
+    task: () => Promise<T>,
+    delayMs: number = this.config.defaultDelayMs,
+  ): Promise<T> {
+    const state = await this.acquire(host);
+
+    try {
+      // 시작 시각을 동기적으로 예약해 같은 호스트의 요청끼리 간격이 겹치지 않도록 함
+      const startAt = Math.max(Date.now(), state.nextStartAt);
+      state.nextStartAt = startAt + delayMs;
+
+      const waitMs = startAt - Date.now();
+      if (waitMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, waitMs));
+      }
+
+      return await task();
+    } finally {
+      this.release(state);
+    }
+  }
+
+  private async acquire(host: string): Promise<HostState> {
+    while (true) {
+      const state = this.hosts.get(host) ?? { active: 0, nextStartAt: 0 };
+
+      if (
+        this.activeCount < this.config.maxConcurrency &&
+        state.active < this.config.perHostConcurrency
+      ) {
+        state.active++;
+        this.activeCount++;
+        this.hosts.set(host, state);
+        return state;
+      }
+
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+  }
+
+  private release(state: HostState) {
+    state.active--;
+    this.activeCount--;
+
+    // 요청 간격이 지난 유휴 호스트는 정리
+    const now = Date.now();
+    for (const [host, hostState] of this.hosts) {
+      if (hostState.active === 0 && hostState.nextStartAt <= now) {
+        this.hosts.delete(host);
+      }
+    }
+
+    this.waiters.splice(0).forEach((resolve) => resolve());
+  }
+}
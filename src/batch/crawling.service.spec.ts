@@ -0,0 +1,132 @@
+import { ConfigService } from '@nestjs/config';
+import { EnvSchema } from 'src/config/validate-env';
+import { BATCH_OPTIONS } from 'src/constants/batch-options';
+import { httpRequest } from 'src/utils/http-client';
+import { CrawlingService } from './crawling.service';
+import { SnapshotService } from './snapshot.service';
+
+jest.mock('src/utils/http-client', () => ({ httpRequest: jest.fn() }));
+
+// quick-lru는 ESM 전용 패키지라 jest(CommonJS)에서 불러올 수 없으므로 Map으로 대체
+jest.mock('quick-lru', () => ({
+  __esModule: true,
+  default: class<K, V> extends Map<K, V> {
+    constructor() {
+      super();
+    }
+  },
+}));
+
+const mockedHttpRequest = jest.mocked(httpRequest);
+
+const PAGE_TEXT =
+  '한국은행은 물가 상승 압력이 높다고 판단해 기준금리를 0.25%포인트 인상했다.';
+
+const createPage = () =>
+  new Response(
+    `<html><body><article><p>${PAGE_TEXT}</p></article></body></html>`,
+    {
+      headers: { 'content-type': 'text/html; charset=utf-8' },
+    },
+  );
+
+describe('CrawlingService', () => {
+  let robotsTxt: Record<string, () => Promise<Response>>;
+  let service: CrawlingService;
+
+  const crawl = (url: string) =>
+    service.crawlWebsite({ title: '기사', url, description: '' });
+
+  const getRequestedUrls = () =>
+    mockedHttpRequest.mock.calls.map(([url]) => String(url));
+
+  beforeEach(() => {
+    robotsTxt = {};
+    mockedHttpRequest.mockReset();
+    mockedHttpRequest.mockImplementation((url) => {
+      const { origin, pathname } = new URL(url);
+      if (pathname === '/robots.txt') {
+        return (
+          robotsTxt[origin]?.() ??
+          Promise.resolve(new Response('', { status: 404 }))
+        );
+      }
+      return Promise.resolve(createPage());
+    });
+
+    service = new CrawlingService(
+      {
+        get: () => 'TestBot',
+      } as unknown as ConfigService<EnvSchema, true>,
+      { isReplaying: false, isRecording: false } as SnapshotService,
+    );
+  });
+
+  it('robots.txt에서 금지한 경로는 요청하지 않는다', async () => {
+    robotsTxt['https://a.com'] = () =>
+      Promise.resolve(
+        new Response('User-agent: TestBot\nDisallow: /private\n'),
+      );
+
+    await expect(crawl('https://a.com/private/1')).resolves.toBeNull();
+    await expect(crawl('https://a.com/news/1')).resolves.toMatchObject({
+      url: 'https://a.com/news/1',
+      texts: [{ text: PAGE_TEXT, page: null }],
+    });
+    expect(getRequestedUrls()).toEqual([
+      'https://a.com/robots.txt',
+      'https://a.com/news/1',
+    ]);
+  });
+
+  it('같은 origin의 robots.txt는 동시에 크롤링해도 한 번만 요청한다', async () => {
+    await Promise.all([
+      crawl('https://a.com/news/1'),
+      crawl('https://a.com/news/2'),
+      crawl('https://b.com/news/1'),
+    ]);
+
+    expect(
+      getRequestedUrls().filter((url) => url.endsWith('/robots.txt')),
+    ).toEqual(['https://a.com/robots.txt', 'https://b.com/robots.txt']);
+  });
+
+  it('robots.txt가 없는 origin은 전체 허용으로 캐시한다', async () => {
+    await expect(crawl('https://a.com/news/1')).resolves.not.toBeNull();
+    await expect(crawl('https://a.com/news/2')).resolves.not.toBeNull();
+
+    expect(
+      getRequestedUrls().filter((url) => url.endsWith('/robots.txt')),
+    ).toHaveLength(1);
+  });
+
+  it('robots.txt 요청이 타임아웃되면 해당 URL을 건너뛰고 캐시하지 않는다', async () => {
+    robotsTxt['https://a.com'] = () =>
+      Promise.reject(
+        Object.assign(new Error('timeout'), { name: 'TimeoutError' }),
+      );
+
+    await expect(crawl('https://a.com/news/1')).resolves.toBeNull();
+
+    robotsTxt['https://a.com'] = () =>
+      Promise.resolve(new Response('User-agent: *\nAllow: /\n'));
+    await expect(crawl('https://a.com/news/1')).resolves.not.toBeNull();
+    expect(getRequestedUrls()).toEqual([
+      'https://a.com/robots.txt',
+      'https://a.com/robots.txt',
+      'https://a.com/news/1',
+    ]);
+  });
+
+  it('Crawl-delay가 한도를 넘는 호스트는 건너뛴다', async () => {
+    robotsTxt['https://a.com'] = () =>
+      Promise.resolve(
+        new Response(
+          `User-agent: *\nCrawl-delay: ${BATCH_OPTIONS.MAX_CRAWL_DELAY_SECONDS + 1}\n`,
+        ),
+      );
+
+    await expect(crawl('https://a.com/news/1')).resolves.toBeNull();
+    expect(getRequestedUrls()).toEqual(['https://a.com/robots.txt']);
+  });
+});
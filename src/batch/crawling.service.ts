@@ -1,113 +1,281 @@
 import { Injectable, Logger } from '@nestjs/common';
-import * as cheerio from 'cheerio';
+import { ConfigService } from '@nestjs/config';
 import QuickLRU from 'quick-lru';
 import robotsParser from 'robots-parser';
 import { BATCH_OPTIONS } from 'src/constants/batch-options';
-import { fetchWithTimeout } from 'src/utils/fetch-with-timeout';
-import { CrawlResult, SearchResult } from './types/types';
+import { decodeBody, parseContentType } from 'src/utils/decode-body';
+import { httpRequest } from 'src/utils/http-client';
+import { readBodyWithLimit } from 'src/utils/read-body-with-limit';
+import { EnvSchema } from '../config/validate-env';
+import { CrawlSchedulerService } from './crawl-scheduler.service';
+import { SnapshotService } from './snapshot.service';
+import { extractHtmlContent } from './extractors/html-content-extractor';
+import { extractPdfContent } from './extractors/pdf-content-extractor';
+import { extractTextContent } from './extractors/text-content-extractor';
+import { ContentHandler, CrawlResult, SearchResult } from './types/types';
+
+type Robots = ReturnType<typeof robotsParser>;
 
 @Injectable()
 export class CrawlingService {
   private readonly logger = new Logger(CrawlingService.name);
 
-  constructor() {}
+  private readonly userAgent: string;
+
+  private readonly scheduler = new CrawlSchedulerService({
+    maxConcurrency: BATCH_OPTIONS.CRAWL_MAX_CONCURRENCY,
+    perHostConcurrency: BATCH_OPTIONS.CRAWL_PER_HOST_CONCURRENCY,
+    defaultDelayMs: BATCH_OPTIONS.CRAWL_DEFAULT_DELAY_MS,
+  });
 
-  private robotsCache = new QuickLRU<string, boolean>({
+  /**
+   * origin별 robots.txt 파싱 결과 캐시
+   * - 경로마다 허용 여부가 다르므로 판정 결과가 아닌 파싱된 객체를 저장합니다.
+   * - 같은 origin을 동시에 크롤링할 때 robots.txt를 한 번만 요청하도록 Promise를 저장합니다.
+   * - robots.txt가 없거나 접근 불가능한 origin은 null(전체 허용)로 저장합니다.
+   */
+  private robotsCache = new QuickLRU<string, Promise<Robots | null>>({
     maxSize: 1000,
     maxAge: 3600 * 1000,
   });
 
+  constructor(
+    configService: ConfigService<EnvSchema, true>,
+    private readonly snapshotService: SnapshotService,
+  ) {
+    this.userAgent = configService.get('CRAWLER_USER_AGENT', { infer: true });
+  }
+
+  /**
+   * 검색 결과의 URL들을 크롤링합니다. 요청은 스케줄러를 통해 호스트별로 조절되며,
+   * 크롤링에 실패한 URL은 결과에서 제외됩니다.
+   */
+  async crawlWebsites(results: SearchResult[]): Promise<CrawlResult[]> {
+    const crawled = await Promise.all(
+      results.map((result) => this.crawlWebsite(result)),
+    );
+
+    return crawled.filter((result) => result !== null);
+  }
+
   async crawlWebsite({
     title,
     url,
   }: SearchResult): Promise<CrawlResult | null> {
     try {
-      const isAllowed = await this.isUrlAllowed(url);
-      if (!isAllowed) {
+      // replay 모드에서는 네트워크 요청 없이 저장된 스냅샷만 사용
+      if (this.snapshotService.isReplaying) {
+        return await this.replayContent(url, title);
+      }
+
+      const robots = await this.getRobots(url);
+
+      if (robots?.isAllowed(url, this.userAgent) === false) {
         this.logger.warn(`Crawling not allowed for ${url} by robots.txt`);
         return null;
       }
 
-      const response = await fetchWithTimeout(url, {
-        headers: {
-          'User-Agent': BATCH_OPTIONS.USER_AGENT,
-        },
-      });
+      const crawlDelay = robots?.getCrawlDelay(this.userAgent);
 
-      if (!response.ok) {
-        this.logger.error(`Failed to fetch ${url}: ${response.status}`);
+      // 지나치게 긴 Crawl-delay는 배치 작업을 지연시키므로 해당 호스트를 건너뜀
+      if (
+        crawlDelay !== undefined &&
+        crawlDelay > BATCH_OPTIONS.MAX_CRAWL_DELAY_SECONDS
+      ) {
+        this.logger.warn(
+          `Crawl-delay ${crawlDelay}s for ${url} exceeds limit, skipping`,
+        );
         return null;
       }
 
-      const html = await response.text();
-
-      return this.extractContent(html, title);
+      return await this.scheduler.schedule(
+        new URL(url).host,
+        () => this.fetchContent(url, title),
+        crawlDelay !== undefined ? crawlDelay * 1000 : undefined,
+      );
     } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
+      if (error instanceof Error && error.name === 'TimeoutError') {
         this.logger.warn(`Timeout fetching ${url}`);
       } else {
-        this.logger.warn(`Failed to crawl ${url}`);
+        this.logger.warn(
+          `Failed to crawl ${url}: ${error instanceof Error ? error.message : String(error)}`,
+        );
       }
       return null;
     }
   }
 
-  private extractContent(html: string, title: string): CrawlResult {
-    const $ = cheerio.load(html);
-    $(BATCH_OPTIONS.REMOVE_SELECTORS).remove();
+  private async fetchContent(
+    url: string,
+    title: string,
+  ): Promise<CrawlResult | null> {
+    const response = await httpRequest(url, {
+      headers: {
+        'User-Agent': this.userAgent,
+      },
+    });
 
-    const textSet = new Set<string>();
+    if (!response.ok) {
+      this.logger.error(`Failed to fetch ${url}: ${response.status}`);
+      return null;
+    }
 
-    $(BATCH_OPTIONS.SELECTORS).each((_, element) => {
-      if ($(element).find(BATCH_OPTIONS.SELECTORS).length > 0) return;
+    const { mimeType, charset } = parseContentType(
+      response.headers.get('content-type'),
+    );
+    const contentHandler = this.getContentHandler(mimeType, url);
 
-      const text = $(element).text().replace(/\s+/g, ' ').trim();
-      if (text.length >= BATCH_OPTIONS.MIN_TEXT_LENGTH) {
-        textSet.add(text);
-      }
-    });
+    if (!contentHandler) {
+      this.logger.warn(
+        `Unsupported content type "${mimeType}" for ${url}, skipping`,
+      );
+      await response.body?.cancel();
+      return null;
+    }
+
+    const body = await readBodyWithLimit(response, contentHandler.maxBytes);
+    const crawledAt = new Date();
+
+    if (this.snapshotService.isRecording) {
+      await this.snapshotService.saveCrawl(
+        {
+          url,
+          finalUrl: response.url || url,
+          status: response.status,
+          contentType: response.headers.get('content-type'),
+          fetchedAt: crawledAt.toISOString(),
+        },
+        body,
+      );
+    }
 
-    return { title, texts: Array.from(textSet) };
+    return {
+      ...(await contentHandler.extract(body, charset, title)),
+      url,
+      crawledAt,
+    };
   }
 
-  private async isUrlAllowed(
-    targetUrl: string,
-    userAgent: string = BATCH_OPTIONS.USER_AGENT,
-  ): Promise<boolean> {
-    const url = new URL(targetUrl);
+  private async replayContent(
+    url: string,
+    title: string,
+  ): Promise<CrawlResult | null> {
+    const stored = await this.snapshotService.loadCrawl(url);
 
-    const robotsUrl = `${url.origin}/robots.txt`;
+    if (!stored) {
+      this.logger.warn(`No snapshot stored for ${url}, skipping`);
+      return null;
+    }
+
+    const { snapshot, body } = stored;
+    const { mimeType, charset } = parseContentType(snapshot.contentType);
+    const contentHandler = this.getContentHandler(mimeType, url);
+
+    if (!contentHandler) {
+      this.logger.warn(
+        `Unsupported content type "${mimeType}" for ${url}, skipping`,
+      );
+      return null;
+    }
+
+    return {
+      ...(await contentHandler.extract(body, charset, title)),
+      url,
+      crawledAt: new Date(snapshot.fetchedAt),
+    };
+  }
+
+  /**
+   * Content-Type에 맞는 본문 처리기와 본문 최대 크기를 반환합니다. 지원하지 않는 형식이면 null을 반환합니다.
+   * - PDF는 HTML보다 크기가 크므로 별도의 한도(`MAX_PDF_RESPONSE_BYTES`)를 사용합니다.
+   * - Content-Type 헤더가 없는 경우 HTML로 간주합니다.
+   * - `application/octet-stream`으로 응답하는 PDF는 URL 확장자로 판별합니다.
+   */
+  private getContentHandler(
+    mimeType: string,
+    url: string,
+  ): ContentHandler | null {
+    const matches = (contentTypes: readonly string[]) =>
+      contentTypes.includes(mimeType);
+
+    if (mimeType === '' || matches(BATCH_OPTIONS.HTML_CONTENT_TYPES)) {
+      return {
+        maxBytes: BATCH_OPTIONS.MAX_RESPONSE_BYTES,
+        extract: (body, charset, title) =>
+          Promise.resolve(extractHtmlContent(decodeBody(body, charset), title)),
+      };
+    }
 
-    if (this.robotsCache.has(robotsUrl)) {
-      return this.robotsCache.get(robotsUrl)!;
+    const isPdfUrl = new URL(url).pathname.toLowerCase().endsWith('.pdf');
+    if (
+      matches(BATCH_OPTIONS.PDF_CONTENT_TYPES) ||
+      (matches(BATCH_OPTIONS.BINARY_CONTENT_TYPES) && isPdfUrl)
+    ) {
+      return {
+        maxBytes: BATCH_OPTIONS.MAX_PDF_RESPONSE_BYTES,
+        extract: (body, _, title) => extractPdfContent(body, title),
+      };
     }
 
+    if (matches(BATCH_OPTIONS.TEXT_CONTENT_TYPES)) {
+      return {
+        maxBytes: BATCH_OPTIONS.MAX_RESPONSE_BYTES,
+        extract: (body, charset, title) =>
+          Promise.resolve(extractTextContent(decodeBody(body, charset), title)),
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * 대상 URL의 origin에 대한 robots.txt를 파싱해 반환합니다.
+   * - robots.txt가 없거나 접근 불가능한 경우 null(전체 허용)을 반환합니다.
+   * - 타임아웃은 캐시하지 않고 예외를 그대로 던져 해당 URL의 크롤링을 건너뜁니다.
+   */
+  private async getRobots(targetUrl: string): Promise<Robots | null> {
+    const { origin } = new URL(targetUrl);
+
+    const cached = this.robotsCache.get(origin);
+    if (cached) return cached;
+
+    const robots = this.fetchRobots(origin);
+    this.robotsCache.set(origin, robots);
+
     try {
-      const response = await fetchWithTimeout(robotsUrl);
+      return await robots;
+    } catch (error) {
+      this.robotsCache.delete(origin);
+      throw error;
+    }
+  }
+
+  private async fetchRobots(origin: string): Promise<Robots | null> {
+    const robotsUrl = `${origin}/robots.txt`;
+
+    try {
+      const response = await httpRequest(robotsUrl, {
+        headers: {
+          'User-Agent': this.userAgent,
+        },
+      });
 
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
-      const robotsTxt = await response.text();
-      const robots = robotsParser(robotsUrl, robotsTxt);
-
-      const isAllowed = robots.isAllowed(targetUrl, userAgent) ?? true;
-      this.robotsCache.set(robotsUrl, isAllowed);
-
-      return isAllowed;
+      return robotsParser(robotsUrl, await response.text());
     } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
+      if (error instanceof Error && error.name === 'TimeoutError') {
         this.logger.warn(`Timeout fetching robots.txt for ${robotsUrl}`);
-        return false;
+        throw error;
       }
 
       // robots.txt가 없거나 접근 불가능한 경우 허용
       this.logger.warn(
         `Failed to fetch robots.txt for ${robotsUrl}, allowing by default`,
       );
-      this.robotsCache.set(robotsUrl, true);
-      return true;
+      return null;
     }
   }
 }
@@ -0,0 +1,79 @@
+import { DiversityService } from './diversity.service';
+import { CrawledDocument } from './types/types';
+
+const createCandidate = (
+  id: string,
+  url: string,
+  content: string,
+  score: number,
+) => ({
+  document: {
+    id,
+    url,
+    title: id,
+    content,
+    page: null,
+    crawledAt: new Date(),
+  } satisfies CrawledDocument,
+  score,
+});
+
+const ARTICLE =
+  '한국은행 금융통화위원회는 물가 상승 압력이 여전히 높다고 판단해 기준금리를 0.25%포인트 인상했다고 밝혔다.';
+
+describe('DiversityService', () => {
+  it('여러 사이트에 배포된 거의 같은 문단은 상위 랭크 하나만 남긴다', () => {
+    const service = new DiversityService();
+
+    const selected = service.select(
+      [
+        createCandidate('a', 'https://news-a.com/1', ARTICLE, 3),
+        createCandidate('b', 'https://news-b.com/1', `${ARTICLE} `, 2),
+        createCandidate(
+          'c',
+          'https://news-c.com/1',
+          '기준금리가 오르면 대출 이자 부담이 커져 가계의 소비가 위축될 수 있다.',
+          1,
+        ),
+      ],
+      10,
+    );
+
+    expect(selected.map(({ document }) => document.id)).toEqual(['a', 'c']);
+  });
+
+  it('같은 도메인의 청크는 상한까지만 선택한다', () => {
+    const service = new DiversityService({ maxPerDomain: 2 });
+
+    const selected = service.select(
+      [
+        createCandidate('a', 'https://www.news.com/1', '금리 인상의 배경', 4),
+        createCandidate('b', 'https://news.com/2', '환율 변동과 수출 기업', 3),
+        createCandidate('c', 'https://news.com/3', '부동산 시장의 반응', 2),
+        createCandidate('d', 'https://blog.com/1', '가계 부채 증가 추이', 1),
+      ],
+      10,
+    );
+
+    expect(selected.map(({ document }) => document.id)).toEqual([
+      'a',
+      'b',
+      'd',
+    ]);
+  });
+
+  it('선택 개수를 limit으로 제한한다', () => {
+    const service = new DiversityService();
+
+    const selected = service.select(
+      [
+        createCandidate('a', 'https://a.com', '금리 인상의 배경', 3),
+        createCandidate('b', 'https://b.com', '환율 변동과 수출 기업', 2),
+        createCandidate('c', 'https://c.com', '부동산 시장의 반응', 1),
+      ],
+      2,
+    );
+
+    expect(selected).toHaveLength(2);
+  });
+});
@@ -0,0 +1,152 @@
+import { getDomain } from 'src/utils/get-domain';
+import { CrawledDocument, DiversityConfig } from './types/types';
+
+/** 32bit FNV-1a 해시의 offset basis / prime */
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+type ScoredDocument = {
+  document: CrawledDocument;
+  score: number;
+};
+
+/**
+ * 랭킹된 참고 문서 청크에서 중복을 제거하고 다양성을 확보하는 서비스 클래스입니다.
+ *
+ * @remarks
+ * 1. **Near-duplicate 제거**:
+ * - 공백/문장부호를 제거한 본문을 글자 단위 shingle로 분해하고 MinHash 시그니처를 계산합니다.
+ * - 두 시그니처에서 일치하는 해시의 비율은 shingle 집합의 Jaccard 유사도 추정치입니다.
+ * - 상위 랭크 문서와의 유사도가 `nearDuplicateThreshold` 이상이면 제거합니다.
+ *
+ * 2. **MMR (Maximal Marginal Relevance) 선택**:
+ * - MMR(D) = λ * Rel(D) - (1 - λ) * max Sim(D, S)
+ * - `Rel(D)`: 최고 점수로 정규화한 랭킹 점수, `S`: 이미 선택된 문서 집합.
+ *
+ * 3. **도메인 상한**:
+ * - 같은 도메인의 청크는 최대 `maxPerDomain`개까지만 선택합니다.
+ */
+export class DiversityService {
+  /** shingle 크기, MinHash 해시 수, 임계값 등 설정 */
+  private config: DiversityConfig;
+
+  /** MinHash 해시 함수 파라미터 (h_i(x) = a_i * x + b_i) */
+  private hashParams: { a: number; b: number }[];
+
+  constructor(config: Partial<DiversityConfig> = {}) {
+    this.config = {
+      shingleSize: config.shingleSize ?? 5,
+      numHashes: config.numHashes ?? 64,
+      nearDuplicateThreshold: config.nearDuplicateThreshold ?? 0.8,
+      mmrLambda: config.mmrLambda ?? 0.7,
+      maxPerDomain: config.maxPerDomain ?? 3,
+    };
+
+    // 실행마다 같은 결과를 얻기 위해 고정된 시드로 파라미터를 생성
+    this.hashParams = Array.from({ length: this.config.numHashes }, (_, i) => ({
+      a: this.hash(`a${i}`) | 1,
+      b: this.hash(`b${i}`),
+    }));
+  }
+
+  select<T extends ScoredDocument>(candidates: T[], limit: number): T[] {
+    const signatures = new Map(
+      candidates.map(({ document }) => [
+        document.id,
+        this.createSignature(document.content),
+      ]),
+    );
+    const similarity = (a: T, b: T) =>
+      this.estimateSimilarity(
+        signatures.get(a.document.id)!,
+        signatures.get(b.document.id)!,
+      );
+
+    const deduplicated: T[] = [];
+    for (const candidate of candidates) {
+      const isDuplicate = deduplicated.some(
+        (kept) =>
+          similarity(candidate, kept) >= this.config.nearDuplicateThreshold,
+      );
+      if (!isDuplicate) deduplicated.push(candidate);
+    }
+
+    const maxScore = Math.max(...deduplicated.map(({ score }) => score), 0);
+    const { mmrLambda, maxPerDomain } = this.config;
+
+    const selected: T[] = [];
+    const domainCounts = new Map<string, number>();
+    const remaining = [...deduplicated];
+
+    while (selected.length < limit && remaining.length > 0) {
+      let bestIdx = -1;
+      let bestScore = -Infinity;
+
+      remaining.forEach((candidate, idx) => {
+        const domain = getDomain(candidate.document.url);
+        if ((domainCounts.get(domain) ?? 0) >= maxPerDomain) return;
+
+        const relevance = maxScore > 0 ? candidate.score / maxScore : 0;
+        const redundancy = Math.max(
+          ...selected.map((doc) => similarity(candidate, doc)),
+          0,
+        );
+        const mmrScore = mmrLambda * relevance - (1 - mmrLambda) * redundancy;
+
+        if (mmrScore > bestScore) {
+          bestScore = mmrScore;
+          bestIdx = idx;
+        }
+      });
+
+      // 남은 후보가 모두 도메인 상한에 걸린 경우
+      if (bestIdx === -1) break;
+
+      const [best] = remaining.splice(bestIdx, 1);
+      const domain = getDomain(best.document.url);
+      domainCounts.set(domain, (domainCounts.get(domain) ?? 0) + 1);
+      selected.push(best);
+    }
+
+    return selected;
+  }
+
+  private createSignature(content: string): number[] {
+    const normalized = content.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+    const { shingleSize } = this.config;
+
+    const shingleHashes = new Set<number>();
+    for (let i = 0; i <= normalized.length - shingleSize; i++) {
+      shingleHashes.add(this.hash(normalized.slice(i, i + shingleSize)));
+    }
+    if (shingleHashes.size === 0) {
+      shingleHashes.add(this.hash(normalized));
+    }
+
+    return this.hashParams.map(({ a, b }) => {
+      let min = Infinity;
+      for (const x of shingleHashes) {
+        const value = (Math.imul(a, x) + b) >>> 0;
+        if (value < min) min = value;
+      }
+      return min;
+    });
+  }
+
+  private estimateSimilarity(a: number[], b: number[]): number {
+    let matches = 0;
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] === b[i]) matches++;
+    }
+    return matches / a.length;
+  }
+
+  private hash(text: string): number {
+    let hash = FNV_OFFSET_BASIS;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, FNV_PRIME);
+    }
+    return hash >>> 0;
+  }
+}
@@ -0,0 +1,96 @@
+import { extractHtmlContent } from './html-content-extractor';
+
+const PARAGRAPHS = [
+  '한국은행은 물가 상승 압력이 높다고 판단해, 기준금리를 0.25%포인트 인상했다.',
+  '기준금리가 오르면 변동금리 대출의 이자 부담이 커지고, 소비와 투자가 위축될 수 있다.',
+  '전문가들은 물가 흐름에 따라, 연내 추가 인상 가능성도 배제할 수 없다고 전망한다.',
+];
+
+const LINK_TEXTS = [
+  '오늘 가장 많이 본 경제 뉴스, 금리, 물가, 환율 기사 모음 바로가기',
+  '부동산 시장 전망, 대출 금리 비교, 청약 일정 정리 기사 보러 가기',
+  '주식 시장 마감 시황, 환율 동향, 원자재 가격 변동 기사 보러 가기',
+];
+
+const paragraphs = (texts: string[]) =>
+  texts.map((text) => `<p>${text}</p>`).join('');
+
+const linkParagraphs = (texts: string[]) =>
+  texts.map((text) => `<p><a href="/news">${text}</a></p>`).join('');
+
+const toTexts = (html: string) =>
+  extractHtmlContent(html, '').texts.map(({ text }) => text);
+
+describe('extractHtmlContent', () => {
+  it('문단 점수가 가장 높은 블록을 본문으로 선택한다', () => {
+    const html = `<body>
+      <div class="post-body">${paragraphs(PARAGRAPHS)}</div>
+      <div><p>본문과 관계없는 안내 문구가 여기에 한 줄 정도 들어갑니다.</p></div>
+    </body>`;
+
+    expect(toTexts(html)).toEqual(PARAGRAPHS);
+  });
+
+  it('쿠키 배너, 관련 기사 목록 등 본문이 아닐 가능성이 높은 블록은 제거한다', () => {
+    const html = `<body>
+      <div class="cookie-consent"><p>이 사이트는 더 나은 서비스 제공을 위해 쿠키를 사용합니다. 동의하십니까?</p></div>
+      <article>${paragraphs(PARAGRAPHS)}</article>
+      <div class="related-list"><p>함께 읽으면 좋은 기사, 관련 기사 목록이 여기에 길게 이어집니다.</p></div>
+    </body>`;
+
+    expect(toTexts(html)).toEqual(PARAGRAPHS);
+  });
+
+  it('링크 밀도가 높은 블록은 점수가 높아도 본문으로 선택하지 않는다', () => {
+    const createHtml = (navigation: string) => `<body>
+      <div class="content">${navigation}</div>
+      <div class="content">${paragraphs(PARAGRAPHS.slice(0, 2))}</div>
+    </body>`;
+
+    // 링크가 없으면 문단이 더 많은 첫 번째 블록의 점수가 더 높음
+    expect(toTexts(createHtml(paragraphs(LINK_TEXTS)))).toEqual(LINK_TEXTS);
+    expect(toTexts(createHtml(linkParagraphs(LINK_TEXTS)))).toEqual(
+      PARAGRAPHS.slice(0, 2),
+    );
+  });
+
+  it('본문 내 링크 위주의 문단은 제외하고 문장 속 링크 텍스트는 유지한다', () => {
+    const html = `<body>
+      <article>
+        ${paragraphs(PARAGRAPHS.slice(0, 1))}
+        <p>자세한 내용은 <a href="/rate">한국은행 보도자료</a>에서 확인할 수 있으며, 시장은 이를 예상했다.</p>
+        ${linkParagraphs(LINK_TEXTS.slice(0, 1))}
+      </article>
+    </body>`;
+
+    expect(toTexts(html)).toEqual([
+      PARAGRAPHS[0],
+      '자세한 내용은 한국은행 보도자료에서 확인할 수 있으며, 시장은 이를 예상했다.',
+    ]);
+  });
+
+  it('메타데이터를 읽고 없으면 기본 제목을 사용한다', () => {
+    const html = `<html><head>
+      <title>문서 제목</title>
+      <meta property="og:site_name" content="경제신문">
+      <meta name="author" content="홍길동">
+      <meta property="article:published_time" content="2025-01-02T03:04:05Z">
+    </head><body><article>${paragraphs(PARAGRAPHS)}</article></body></html>`;
+
+    expect(extractHtmlContent(html, '검색 결과 제목')).toMatchObject({
+      title: '검색 결과 제목',
+      siteName: '경제신문',
+      author: '홍길동',
+      publishedAt: new Date('2025-01-02T03:04:05Z'),
+    });
+    expect(
+      extractHtmlContent(
+        html.replace(
+          '<title>',
+          '<meta property="og:title" content="OG 제목"><title>',
+        ),
+        '검색 결과 제목',
+      ).title,
+    ).toBe('OG 제목');
+  });
+});
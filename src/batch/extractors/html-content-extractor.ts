@@ -0,0 +1,208 @@
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+import { BATCH_OPTIONS } from 'src/constants/batch-options';
+import { CrawlMetadata, ExtractedContent } from '../types/types';
+
+/** 본문이 아닐 가능성이 높은 블록의 class/id 패턴 (쿠키 배너, 관련 기사 목록 등) */
+const UNLIKELY_CANDIDATES =
+  /banner|breadcrumb|combx|comment|community|cookie|consent|disqus|extra|gdpr|popup|promo|related|recommend|remark|replies|rss|share|shoutbox|sidebar|social|sns|sponsor|subscribe|newsletter|ad-break|agegate|pagination|pager|popular|ranking|copyright|taboola|outbrain/i;
+
+/** UNLIKELY_CANDIDATES에 해당하더라도 본문일 수 있는 class/id 패턴 */
+const MAYBE_CANDIDATES = /and|article|body|column|content|main|shadow/i;
+
+/** 점수를 가산/감산할 class/id 패턴 */
+const POSITIVE_PATTERN =
+  /article|body|content|entry|hentry|main|page|post|text|blog|story|news|view|detail/i;
+const NEGATIVE_PATTERN =
+  /hidden|banner|combx|comment|com-|contact|foot|footer|footnote|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget|reply|cookie|recommend|ranking|popular|sns/i;
+
+/** 컨테이너 태그별 기본 점수 */
+const TAG_SCORES: Record<string, number> = {
+  article: 10,
+  main: 10,
+  section: 5,
+  div: 5,
+  blockquote: 3,
+  td: 3,
+  form: -3,
+  ul: -3,
+  ol: -3,
+  li: -3,
+  aside: -5,
+};
+
+const SCORE_ATTR = 'data-content-score';
+const CLASS_WEIGHT = 25;
+const MAX_LINK_DENSITY = 0.5;
+
+/**
+ * Readability 방식으로 HTML에서 본문 블록과 메타데이터를 추출합니다.
+ *
+ * @remarks
+ * 1. 메타데이터(`og:title`, `article:published_time`, author 등)를 먼저 읽습니다.
+ * 2. 불필요한 태그와 본문이 아닐 가능성이 높은 블록(쿠키 배너, 관련 기사 목록 등)을 제거합니다.
+ * 3. 문단 단위 블록의 텍스트 길이/쉼표 수로 점수를 매겨 부모(1배)와 조부모(0.5배)에 누적합니다.
+ * 4. 누적 점수에 (1 - 링크 밀도)를 곱한 값이 가장 큰 블록을 본문 컨테이너로 선택합니다.
+ * 5. 본문 컨테이너 내에서 링크 밀도가 낮은 문단 텍스트만 수집합니다.
+ *    `a` 태그는 제거하지 않으므로 문장 속 링크 텍스트는 유지됩니다.
+ */
+export const extractHtmlContent = (
+  html: string,
+  fallbackTitle: string,
+): ExtractedContent => {
+  const $ = cheerio.load(html);
+
+  const metadata = extractMetadata($, fallbackTitle);
+
+  $(BATCH_OPTIONS.REMOVE_SELECTORS).remove();
+  $('body *').each((_, element) => {
+    const $element = $(element);
+    const matchString = `${$element.attr('class') ?? ''} ${$element.attr('id') ?? ''}`;
+
+    if (
+      UNLIKELY_CANDIDATES.test(matchString) &&
+      !MAYBE_CANDIDATES.test(matchString) &&
+      !$element.is('body, article, main')
+    ) {
+      $element.remove();
+    }
+  });
+
+  // 문단 단위 블록 점수를 부모/조부모 컨테이너에 누적
+  $(BATCH_OPTIONS.SELECTORS).each((_, element) => {
+    const $element = $(element);
+    if ($element.find(BATCH_OPTIONS.SELECTORS).length > 0) return;
+
+    const text = normalizeText($element.text());
+    if (text.length < BATCH_OPTIONS.MIN_TEXT_LENGTH) return;
+
+    const contentScore =
+      1 +
+      text.split(/[,，、]/).length +
+      Math.min(Math.floor(text.length / 100), 3);
+
+    $element
+      .parents()
+      .slice(0, 2)
+      .each((level, ancestor) => {
+        const $ancestor = $(ancestor);
+        const score =
+          Number($ancestor.attr(SCORE_ATTR) ?? initialScore($ancestor)) +
+          contentScore / (level + 1);
+        $ancestor.attr(SCORE_ATTR, String(score));
+      });
+  });
+
+  const topCandidate = $(`[${SCORE_ATTR}]`)
+    .toArray()
+    .map((element) => {
+      const $element = $(element);
+      return {
+        $element,
+        score:
+          Number($element.attr(SCORE_ATTR)) * (1 - getLinkDensity($element)),
+      };
+    })
+    .reduce<{ $element: cheerio.Cheerio<Element>; score: number } | null>(
+      (best, candidate) =>
+        candidate.score > (best?.score ?? 0) ? candidate : best,
+      null,
+    );
+
+  const container = topCandidate?.$element ?? $('body');
+  const textSet = new Set<string>();
+
+  container.find(BATCH_OPTIONS.SELECTORS).each((_, element) => {
+    const $element = $(element);
+    if ($element.find(BATCH_OPTIONS.SELECTORS).length > 0) return;
+
+    const text = normalizeText($element.text());
+    if (text.length < BATCH_OPTIONS.MIN_TEXT_LENGTH) return;
+    if (getLinkDensity($element) > MAX_LINK_DENSITY) return;
+
+    textSet.add(text);
+  });
+
+  // 본문 컨테이너 자체가 문단인 경우
+  const containerText = normalizeText(container.text());
+  if (
+    textSet.size === 0 &&
+    containerText.length >= BATCH_OPTIONS.MIN_TEXT_LENGTH
+  ) {
+    textSet.add(containerText);
+  }
+
+  return {
+    ...metadata,
+    texts: Array.from(textSet, (text) => ({ text, page: null })),
+  };
+};
+
+const extractMetadata = (
+  $: cheerio.CheerioAPI,
+  fallbackTitle: string,
+): CrawlMetadata => {
+  const meta = (...selectors: string[]) => {
+    for (const selector of selectors) {
+      const content = $(selector).first().attr('content')?.trim();
+      if (content) return content;
+    }
+    return null;
+  };
+
+  const title =
+    meta('meta[property="og:title"]', 'meta[name="twitter:title"]') ??
+    (fallbackTitle || normalizeText($('title').first().text()));
+
+  const publishedTime =
+    meta(
+      'meta[property="article:published_time"]',
+      'meta[name="article:published_time"]',
+      'meta[itemprop="datePublished"]',
+      'meta[name="pubdate"]',
+      'meta[name="date"]',
+    ) ?? $('time[datetime]').first().attr('datetime');
+  const publishedAt = publishedTime ? new Date(publishedTime) : null;
+
+  const author =
+    meta(
+      'meta[name="author"]',
+      'meta[property="article:author"]',
+      'meta[name="byl"]',
+      'meta[name="dable:author"]',
+    ) ??
+    (normalizeText(
+      $('[rel="author"], [itemprop="author"], .byline, .author').first().text(),
+    ) ||
+      null);
+
+  return {
+    title,
+    siteName: meta('meta[property="og:site_name"]'),
+    author,
+    publishedAt:
+      publishedAt && !Number.isNaN(publishedAt.getTime()) ? publishedAt : null,
+  };
+};
+
+const initialScore = ($element: cheerio.Cheerio<Element>): number => {
+  const tagName = ($element.prop('tagName') ?? '').toLowerCase();
+  const matchString = `${$element.attr('class') ?? ''} ${$element.attr('id') ?? ''}`;
+
+  let score = TAG_SCORES[tagName] ?? 0;
+  if (POSITIVE_PATTERN.test(matchString)) score += CLASS_WEIGHT;
+  if (NEGATIVE_PATTERN.test(matchString)) score -= CLASS_WEIGHT;
+
+  return score;
+};
+
+const getLinkDensity = ($element: cheerio.Cheerio<Element>): number => {
+  const textLength = normalizeText($element.text()).length;
+  if (textLength === 0) return 0;
+
+  const linkLength = normalizeText($element.find('a').text()).length;
+
+  return linkLength / textLength;
+};
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim();
@@ -0,0 +1,98 @@
+import { BATCH_OPTIONS } from 'src/constants/batch-options';
+import { extractPdfContent } from './pdf-content-extractor';
+
+/**
+ * 페이지마다 한 줄의 텍스트를 가진 PDF를 만듭니다. (Helvetica, ASCII 텍스트만 지원)
+ */
+const createPdf = (pageTexts: string[], info: string): Uint8Array => {
+  const pageIds = pageTexts.map((_, index) => 4 + index * 2);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageTexts.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    ...pageTexts.flatMap((text, index) => {
+      const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+      return [
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+        `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+      ];
+    }),
+    info,
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`)
+    .join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new Uint8Array(Buffer.from(pdf, 'latin1'));
+};
+
+const PAGE_TEXTS = [
+  'The central bank raised the base rate by a quarter point.',
+  'Short page',
+  'Higher rates increase the interest burden on variable loans.',
+];
+
+describe('extractPdfContent', () => {
+  it('페이지별 텍스트를 페이지 번호와 함께 추출하고 짧은 페이지는 제외한다', async () => {
+    const result = await extractPdfContent(
+      createPdf(PAGE_TEXTS, '<< >>'),
+      'fallback',
+    );
+
+    expect(result.texts).toEqual([
+      { text: PAGE_TEXTS[0], page: 1 },
+      { text: PAGE_TEXTS[2], page: 3 },
+    ]);
+  });
+
+  it('문서 정보의 제목, 저자, 작성일을 읽고 없으면 기본 제목을 사용한다', async () => {
+    const withInfo = await extractPdfContent(
+      createPdf(
+        PAGE_TEXTS,
+        '<< /Title (Rate Report) /Author (Research Team) /CreationDate (D:20250102030405Z) >>',
+      ),
+      'fallback',
+    );
+    const withoutInfo = await extractPdfContent(
+      createPdf(PAGE_TEXTS, '<< >>'),
+      'fallback',
+    );
+
+    expect(withInfo).toMatchObject({
+      title: 'Rate Report',
+      author: 'Research Team',
+      publishedAt: new Date('2025-01-02T03:04:05Z'),
+    });
+    expect(withoutInfo).toMatchObject({
+      title: 'fallback',
+      author: null,
+      publishedAt: null,
+    });
+  });
+
+  it(`최대 ${BATCH_OPTIONS.MAX_PDF_PAGES}페이지까지만 추출한다`, async () => {
+    const result = await extractPdfContent(
+      createPdf(
+        Array.from(
+          { length: BATCH_OPTIONS.MAX_PDF_PAGES + 1 },
+          (_, index) => `${PAGE_TEXTS[0]} Page ${index + 1}`,
+        ),
+        '<< >>',
+      ),
+      'fallback',
+    );
+
+    expect(result.texts).toHaveLength(BATCH_OPTIONS.MAX_PDF_PAGES);
+    expect(result.texts.at(-1)?.page).toBe(BATCH_OPTIONS.MAX_PDF_PAGES);
+  });
+});
@@ -0,0 +1,76 @@
+import { dirname, join } from 'path';
+import {
+  getDocument,
+  PDFDateString,
+  VerbosityLevel,
+} from 'pdfjs-dist/legacy/build/pdf.js';
+import { BATCH_OPTIONS } from 'src/constants/batch-options';
+import { ExtractedContent } from '../types/types';
+
+/** 한글 등 CJK 폰트의 문자 매핑(CMap)과 표준 폰트 데이터 경로 */
+const PDFJS_ROOT = dirname(require.resolve('pdfjs-dist/package.json'));
+const CMAP_URL = join(PDFJS_ROOT, 'cmaps') + '/';
+const STANDARD_FONT_DATA_URL = join(PDFJS_ROOT, 'standard_fonts') + '/';
+
+type PdfInfo = {
+  Title?: string;
+  Author?: string;
+  CreationDate?: string;
+};
+
+/**
+ * pdf.js(pure JS)로 PDF의 페이지별 텍스트와 문서 정보를 추출합니다.
+ * 추출된 텍스트에는 페이지 번호가 함께 기록되어 인용(citation)에 사용됩니다.
+ */
+export const extractPdfContent = async (
+  body: Uint8Array,
+  fallbackTitle: string,
+): Promise<ExtractedContent> => {
+  const pdf = await getDocument({
+    data: body,
+    cMapUrl: CMAP_URL,
+    cMapPacked: true,
+    standardFontDataUrl: STANDARD_FONT_DATA_URL,
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    verbosity: VerbosityLevel.ERRORS,
+  }).promise;
+
+  try {
+    const { info } = (await pdf.getMetadata()) as { info: PdfInfo };
+    const pageCount = Math.min(pdf.numPages, BATCH_OPTIONS.MAX_PDF_PAGES);
+    const texts: ExtractedContent['texts'] = [];
+
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const { items } = await page.getTextContent();
+
+      const pageText = items
+        .map((item) =>
+          'str' in item ? `${item.str}${item.hasEOL ? '\n' : ''}` : '',
+        )
+        .join('')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+      if (pageText.length >= BATCH_OPTIONS.MIN_TEXT_LENGTH) {
+        texts.push({ text: pageText, page: pageNumber });
+      }
+
+      page.cleanup();
+    }
+
+    return {
+      title: info.Title?.trim() || fallbackTitle,
+      siteName: null,
+      author: info.Author?.trim() || null,
+      publishedAt: info.CreationDate
+        ? PDFDateString.toDateObject(info.CreationDate)
+        : null,
+      texts,
+    };
+  } finally {
+    await pdf.destroy();
+  }
+};
@@ -0,0 +1,41 @@
+import { extractTextContent } from './text-content-extractor';
+
+describe('extractTextContent', () => {
+  it('빈 줄 기준으로 문단을 나누고 공백을 정리한다', () => {
+    const result = extractTextContent(
+      [
+        '한국은행은 물가 상승 압력이 높다고 판단해\n기준금리를 인상했다고 밝혔다.',
+        '기준금리가 오르면   변동금리 대출의 이자 부담이 커진다.',
+      ].join('\r\n  \r\n'),
+      '문서 제목',
+    );
+
+    expect(result).toEqual({
+      title: '문서 제목',
+      siteName: null,
+      author: null,
+      publishedAt: null,
+      texts: [
+        {
+          text: '한국은행은 물가 상승 압력이 높다고 판단해 기준금리를 인상했다고 밝혔다.',
+          page: null,
+        },
+        {
+          text: '기준금리가 오르면 변동금리 대출의 이자 부담이 커진다.',
+          page: null,
+        },
+      ],
+    });
+  });
+
+  it('최소 길이보다 짧은 문단은 제외한다', () => {
+    const result = extractTextContent(
+      '목차\n\n한국은행은 물가 상승 압력이 높다고 판단해 기준금리를 인상했다고 밝혔다.',
+      '문서 제목',
+    );
+
+    expect(result.texts.map(({ text }) => text)).toEqual([
+      '한국은행은 물가 상승 압력이 높다고 판단해 기준금리를 인상했다고 밝혔다.',
+    ]);
+  });
+});
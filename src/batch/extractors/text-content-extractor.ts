@@ -0,0 +1,24 @@
+import { BATCH_OPTIONS } from 'src/constants/batch-options';
+import { ExtractedContent } from '../types/types';
+
+/**
+ * `text/plain` 문서를 빈 줄 기준의 문단으로 분리합니다.
+ */
+export const extractTextContent = (
+  text: string,
+  fallbackTitle: string,
+): ExtractedContent => {
+  const texts = text
+    .split(/\r?\n\s*\r?\n/)
+    .map((paragraph) => paragraph.replace(/\s+/g, ' ').trim())
+    .filter((paragraph) => paragraph.length >= BATCH_OPTIONS.MIN_TEXT_LENGTH)
+    .map((paragraph) => ({ text: paragraph, page: null }));
+
+  return {
+    title: fallbackTitle,
+    siteName: null,
+    author: null,
+    publishedAt: null,
+    texts,
+  };
+};
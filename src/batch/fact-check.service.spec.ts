@@ -0,0 +1,153 @@
+import { FactCheckService } from './fact-check.service';
+import {
+  ClaimJudge,
+  ClaimJudgement,
+  ReferenceChunk,
+  Tokenizer,
+} from './types/types';
+
+const whitespaceTokenizer: Tokenizer = {
+  tokenize: (text) =>
+    text
+      .replace(/[.!?]/g, '')
+      .split(/\s+/)
+      .filter((token) => token.length > 0),
+};
+
+const createJudge = (judgements: ClaimJudgement[]): ClaimJudge => ({
+  judge: () => Promise.resolve(judgements),
+});
+
+const createReference = (refId: string, content: string): ReferenceChunk => ({
+  refId,
+  document: {
+    id: refId,
+    url: `https://example.com/${refId}`,
+    title: refId,
+    content,
+    page: null,
+    crawledAt: new Date(),
+  },
+  bm25Score: 1,
+});
+
+const REFERENCES = [
+  createReference(
+    'ref-1',
+    '한국은행은 물가 상승 압력이 높다고 판단해 기준금리를 인상했다.',
+  ),
+  createReference('ref-2', '기준금리가 오르면 대출 이자 부담이 커진다.'),
+];
+
+const CONTENT = [
+  '한국은행은 물가 상승 압력이 높다고 판단해 기준금리를 인상했다.',
+  '기준금리가 오르면 대출 이자 부담이 커진다.',
+  '전문가들은 내년에 기준금리가 두 차례 더 오를 것으로 전망한다.',
+].join(' ');
+
+describe('FactCheckService', () => {
+  it('본문을 문장 단위로 나누고 짧은 문장은 제외한다', () => {
+    const service = new FactCheckService(createJudge([]), {
+      minClaimLength: 10,
+    });
+
+    expect(
+      service.splitClaims(
+        '첫 번째 문장은 충분히 깁니다. 짧음.\n두 번째 문장도 충분히 깁니다!',
+      ),
+    ).toEqual([
+      '첫 번째 문장은 충분히 깁니다.',
+      '두 번째 문장도 충분히 깁니다!',
+    ]);
+  });
+
+  it('마크다운 구조와 코드 블록은 문장으로 세지 않는다', () => {
+    const service = new FactCheckService(createJudge([]), {
+      minClaimLength: 10,
+    });
+
+    const content = [
+      '## 기준금리 인상의 배경과 영향',
+      '',
+      '한국은행은 **기준금리**를 인상했다. 물가 상승 압력이 높았기 때문이다.',
+      '',
+      '- 대출 이자 부담이 [크게](https://example.com) 늘어난다.',
+      '1. 예금 금리도 `함께` 오르는 경향이 있다.',
+      '> 전문가들은 추가 인상 가능성을 언급했다.',
+      '',
+      '| 구분 | 인상 전 금리 | 인상 후 금리 |',
+      '| --- | --- | --- |',
+      '| 기준금리 | 3.25% | 3.50% |',
+      '',
+      '---',
+      '```python',
+      'rate = base_rate + spread  # 대출 금리 계산 예시',
+      '```',
+    ].join('\n');
+
+    expect(service.splitClaims(content)).toEqual([
+      '한국은행은 기준금리를 인상했다.',
+      '물가 상승 압력이 높았기 때문이다.',
+      '대출 이자 부담이 크게 늘어난다.',
+      '예금 금리도 함께 오르는 경향이 있다.',
+      '전문가들은 추가 인상 가능성을 언급했다.',
+    ]);
+  });
+
+  it('judge의 판정으로 근거 없는 문장 비율을 계산하고 기준을 넘으면 플래그한다', async () => {
+    const service = new FactCheckService(
+      createJudge([
+        { index: 0, verdict: 'supported', refIds: ['ref-1'], reason: '' },
+        { index: 1, verdict: 'supported', refIds: ['ref-2'], reason: '' },
+        { index: 2, verdict: 'unsupported', refIds: [], reason: '언급 없음' },
+      ]),
+      { maxUnsupportedRatio: 0.2 },
+      whitespaceTokenizer,
+    );
+
+    const result = await service.verify(CONTENT, REFERENCES);
+
+    expect(result.claims.map(({ verdict }) => verdict)).toEqual([
+      'supported',
+      'supported',
+      'unsupported',
+    ]);
+    expect(result.unsupportedRatio).toBeCloseTo(1 / 3);
+    expect(result.flagged).toBe(true);
+  });
+
+  it('judge가 판정하지 않은 문장은 lexical overlap으로 판정한다', async () => {
+    const service = new FactCheckService(
+      createJudge([]),
+      { lexicalSupportThreshold: 0.5 },
+      whitespaceTokenizer,
+    );
+
+    const result = await service.verify(CONTENT, REFERENCES);
+
+    expect(result.claims[0]).toMatchObject({
+      verdict: 'supported',
+      lexicalScore: 1,
+      refIds: ['ref-1'],
+      reason: null,
+    });
+    expect(result.claims[2].verdict).toBe('unsupported');
+  });
+
+  it('존재하지 않는 참고 자료만 근거로 든 supported 판정은 overlap이 낮으면 unsupported로 본다', async () => {
+    const service = new FactCheckService(
+      createJudge([
+        { index: 2, verdict: 'supported', refIds: ['ref-9'], reason: '' },
+      ]),
+      {},
+      whitespaceTokenizer,
+    );
+
+    const result = await service.verify(CONTENT, REFERENCES);
+
+    expect(result.claims[2]).toMatchObject({
+      verdict: 'unsupported',
+      refIds: [],
+    });
+  });
+});
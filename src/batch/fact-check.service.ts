@@ -0,0 +1,179 @@
+import { KoreanTokenizer } from './tokenizers/korean-tokenizer';
+import {
+  ClaimCheck,
+  ClaimJudge,
+  ClaimJudgement,
+  FactCheckConfig,
+  FactCheckResult,
+  ReferenceChunk,
+  Tokenizer,
+} from './types/types';
+
+/**
+ * 생성된 아티클이 참고 자료(`<reference_data>`)에 근거하는지 검증하는 서비스 클래스입니다.
+ *
+ * @remarks
+ * 1. **문장(claim) 분리**:
+ * - 마크다운 코드 블록, 제목, 표, 구분선을 제외하고 목록 기호와 강조 문법을 벗겨냅니다.
+ * - 본문을 줄바꿈과 문장 부호(`.`, `!`, `?`) 기준으로 나누고, `minClaimLength`보다 짧은 문장은 제외합니다.
+ *
+ * 2. **Lexical overlap**:
+ * - 문장의 토큰 중 참고 자료 청크에 포함된 토큰의 비율을 청크별로 계산하여 최댓값을 사용합니다.
+ *
+ * 3. **판정**:
+ * - LLM judge의 판정을 우선합니다.
+ * - judge가 판정하지 않은 문장은 overlap이 `lexicalSupportThreshold` 이상일 때만 근거가 있다고 봅니다.
+ * - judge가 `supported`로 판정했더라도 존재하지 않는 참고 자료만 근거로 들고 overlap도 낮으면 `unsupported`로 봅니다.
+ *
+ * 4. **플래그**:
+ * - `unsupported`/`contradicted` 문장의 비율이 `maxUnsupportedRatio`를 넘으면 `flagged`입니다.
+ */
+export class FactCheckService {
+  /** 문장 최소 길이, overlap 임계값 등 설정 */
+  private config: FactCheckConfig;
+
+  constructor(
+    private readonly claimJudge: ClaimJudge,
+    config: Partial<FactCheckConfig> = {},
+    private readonly tokenizer: Tokenizer = new KoreanTokenizer(),
+  ) {
+    this.config = {
+      minClaimLength: config.minClaimLength ?? 15,
+      lexicalSupportThreshold: config.lexicalSupportThreshold ?? 0.5,
+      maxUnsupportedRatio: config.maxUnsupportedRatio ?? 0.2,
+    };
+  }
+
+  async verify(
+    content: string,
+    references: ReferenceChunk[],
+  ): Promise<FactCheckResult> {
+    const claims = this.splitClaims(content);
+
+    if (claims.length === 0) {
+      return { claims: [], unsupportedRatio: 0, flagged: false };
+    }
+
+    const judgements = new Map<number, ClaimJudgement>();
+    for (const judgement of await this.claimJudge.judge(claims, references)) {
+      judgements.set(judgement.index, judgement);
+    }
+
+    const referenceTokens = references.map(({ refId, document }) => ({
+      refId,
+      tokens: new Set(this.tokenizer.tokenize(document.content)),
+    }));
+    const refIds = new Set(references.map(({ refId }) => refId));
+
+    const checks = claims.map((claim, index): ClaimCheck => {
+      const lexical = this.scoreOverlap(claim, referenceTokens);
+      const isLexicallySupported =
+        lexical.score >= this.config.lexicalSupportThreshold;
+      const judgement = judgements.get(index);
+
+      if (!judgement) {
+        return {
+          claim,
+          verdict: isLexicallySupported ? 'supported' : 'unsupported',
+          lexicalScore: lexical.score,
+          refIds: lexical.refId ? [lexical.refId] : [],
+          reason: null,
+        };
+      }
+
+      const citedRefIds = judgement.refIds.filter((refId) => refIds.has(refId));
+      const isHallucinated =
+        judgement.verdict === 'supported' &&
+        citedRefIds.length === 0 &&
+        !isLexicallySupported;
+
+      return {
+        claim,
+        verdict: isHallucinated ? 'unsupported' : judgement.verdict,
+        lexicalScore: lexical.score,
+        refIds: citedRefIds,
+        reason: judgement.reason,
+      };
+    });
+
+    const unsupportedCount = checks.filter(
+      ({ verdict }) => verdict !== 'supported',
+    ).length;
+    const unsupportedRatio = unsupportedCount / checks.length;
+
+    return {
+      claims: checks,
+      unsupportedRatio,
+      flagged: unsupportedRatio > this.config.maxUnsupportedRatio,
+    };
+  }
+
+  splitClaims(content: string): string[] {
+    return this.stripMarkdown(content)
+      .flatMap((line) => line.split(/(?<=[.!?])\s+/))
+      .map((sentence) => sentence.trim())
+      .filter((sentence) => sentence.length >= this.config.minClaimLength);
+  }
+
+  /**
+   * 마크다운 본문에서 문장이 아닌 구조를 걷어내고 본문 줄만 반환합니다.
+   *
+   * @remarks
+   * - 코드 블록, 제목, 표, 구분선은 제외합니다.
+   * - 목록/인용 기호와 강조, 인라인 코드, 링크 문법은 벗겨내고 텍스트만 남깁니다.
+   */
+  private stripMarkdown(content: string): string[] {
+    const lines: string[] = [];
+    let inCodeFence = false;
+
+    for (const rawLine of content.split('\n')) {
+      const line = rawLine.trim();
+
+      if (/^(```|~~~)/.test(line)) {
+        inCodeFence = !inCodeFence;
+        continue;
+      }
+      if (
+        inCodeFence ||
+        /^#{1,6}\s/.test(line) ||
+        line.startsWith('|') ||
+        /^([-*_]\s*){3,}$/.test(line)
+      ) {
+        continue;
+      }
+
+      lines.push(
+        line
+          .replace(/^(>\s*)+/, '')
+          .replace(/^([-*+]|\d+[.)])\s+/, '')
+          .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+          .replace(/`([^`]*)`/g, '$1')
+          .replace(/(\*\*|__|\*|_)(\S(?:.*?\S)?)\1/g, '$2'),
+      );
+    }
+
+    return lines;
+  }
+
+  private scoreOverlap(
+    claim: string,
+    referenceTokens: { refId: string; tokens: Set<string> }[],
+  ): { score: number; refId: string | null } {
+    const claimTokens = new Set(this.tokenizer.tokenize(claim));
+    let best = { score: 0, refId: null as string | null };
+
+    if (claimTokens.size === 0) return best;
+
+    for (const { refId, tokens } of referenceTokens) {
+      let matched = 0;
+      for (const token of claimTokens) {
+        if (tokens.has(token)) matched++;
+      }
+
+      const score = matched / claimTokens.size;
+      if (score > best.score) best = { score, refId };
+    }
+
+    return best;
+  }
+}
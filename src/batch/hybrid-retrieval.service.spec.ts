@@ -0,0 +1,110 @@
+import { HybridRetrievalService } from './hybrid-retrieval.service';
+import { CrawledDocument, EmbeddingProvider } from './types/types';
+
+/** 단어가 속한 개념(concept)의 등장 횟수를 벡터로 만드는 결정적(deterministic) 임베딩 Stub */
+const CONCEPTS = [
+  ['interest', 'rate', 'borrowing', 'costs', 'tightens'],
+  ['stock', 'market', 'rally'],
+];
+
+const createStubEmbeddingProvider = () => {
+  const embed = jest.fn((texts: string[]) =>
+    Promise.resolve(
+      texts.map((text) => {
+        const words = text.toLowerCase().split(/\s+/);
+        return CONCEPTS.map(
+          (concept) => words.filter((word) => concept.includes(word)).length,
+        );
+      }),
+    ),
+  );
+
+  return { embed } satisfies EmbeddingProvider;
+};
+
+const createDocument = (id: string, content: string): CrawledDocument => ({
+  id,
+  url: `https://example.com/${id}`,
+  title: id,
+  content,
+  page: null,
+  crawledAt: new Date(),
+});
+
+/**
+ * - d1: 쿼리와 어휘가 겹침 → BM25 1위, dense 1위 (cos = 1)
+ * - d2: 쿼리를 다른 표현으로 설명 → BM25 점수 없음, dense 2위 (cos = 3 / √10)
+ * - d3: 무관한 문서 → BM25 점수 없음, dense 3위 (cos = 0)
+ */
+const documents = [
+  createDocument('d1', 'interest rate hike announced'),
+  createDocument('d2', 'borrowing costs climb in the market as bank tightens'),
+  createDocument('d3', 'stock market rally'),
+];
+
+describe('HybridRetrievalService', () => {
+  it('BM25와 dense 랭킹을 RRF로 결합한다', async () => {
+    const service = new HybridRetrievalService(
+      documents,
+      createStubEmbeddingProvider(),
+      { rrfK: 60 },
+    );
+
+    const results = await service.search('interest rate', 3);
+
+    expect(results.map(({ document }) => document.id)).toEqual([
+      'd1',
+      'd2',
+      'd3',
+    ]);
+    // d1: 1 / (60 + 1) + 1 / (60 + 1), d2: 1 / (60 + 2), d3: 1 / (60 + 3)
+    expect(results[0].score).toBeCloseTo(2 / 61, 10);
+    expect(results[1].score).toBeCloseTo(1 / 62, 10);
+    expect(results[2].score).toBeCloseTo(1 / 63, 10);
+  });
+
+  it('어휘가 겹치지 않는 문서도 dense 점수로 검색한다', async () => {
+    const service = new HybridRetrievalService(
+      documents,
+      createStubEmbeddingProvider(),
+    );
+
+    const [, paraphrased] = await service.search('interest rate', 2);
+
+    expect(paraphrased.document.id).toBe('d2');
+    expect(paraphrased.bm25Score).toBe(0);
+    expect(paraphrased.denseScore).toBeCloseTo(3 / Math.sqrt(10), 10);
+  });
+
+  it('랭킹별 가중치를 반영한다', async () => {
+    const service = new HybridRetrievalService(
+      documents,
+      createStubEmbeddingProvider(),
+      { rrfK: 10, denseWeight: 0.5, bm25Weight: 0 },
+    );
+
+    const results = await service.search('interest rate', 2);
+
+    expect(results[0].score).toBeCloseTo(0.5 / 11, 10);
+    expect(results[1].score).toBeCloseTo(0.5 / 12, 10);
+  });
+
+  it('문서 임베딩은 한 번만 계산한다', async () => {
+    const embeddingProvider = createStubEmbeddingProvider();
+    const service = new HybridRetrievalService(documents, embeddingProvider);
+
+    await service.search('interest rate');
+    await service.search('stock market');
+
+    // 쿼리 2회 + 문서 1회
+    expect(embeddingProvider.embed).toHaveBeenCalledTimes(3);
+  });
+
+  it('문서가 없으면 임베딩을 호출하지 않는다', async () => {
+    const embeddingProvider = createStubEmbeddingProvider();
+    const service = new HybridRetrievalService([], embeddingProvider);
+
+    expect(await service.search('interest rate')).toEqual([]);
+    expect(embeddingProvider.embed).not.toHaveBeenCalled();
+  });
+});
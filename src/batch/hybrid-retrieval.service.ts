@@ -0,0 +1,137 @@
+import { BM25Service } from './bm25.service';
+import {
+  CrawledDocument,
+  EmbeddingProvider,
+  HybridRetrievalConfig,
+  HybridSearchResult,
+} from './types/types';
+
+/**
+ * BM25(lexical)와 임베딩(dense) 랭킹을 Reciprocal Rank Fusion으로 결합하는 검색 클래스입니다.
+ *
+ * @remarks
+ * ### RRF 공식:
+ *
+ * RRF(D) = Σ [ w_r / (k + rank_r(D)) ]
+ *
+ * - `rank_r(D)`: 랭킹 r에서 문서 D의 순위 (1부터 시작). 랭킹에 없는 문서는 기여하지 않습니다.
+ * - `k`: 상위 순위의 영향력을 완화하는 상수 (`this.config.rrfK`).
+ * - `w_r`: 랭킹별 가중치 (`this.config.denseWeight`, `this.config.bm25Weight`).
+ *
+ * 문서 임베딩은 첫 검색 시 `EmbeddingProvider`를 통해 한 번만 계산되어 캐싱됩니다.
+ */
+export class HybridRetrievalService {
+  /** 검색 대상 문서 배열 */
+  private documents: CrawledDocument[];
+
+  /** 임베딩을 생성하는 Provider */
+  private embeddingProvider: EmbeddingProvider;
+
+  /** lexical 랭킹을 담당하는 BM25 인덱스 */
+  private bm25Service: BM25Service;
+
+  /** RRF 하이퍼파라미터 (k, 가중치) */
+  private config: HybridRetrievalConfig;
+
+  /** 문서 ID를 키로, 문서 임베딩 벡터를 저장 */
+  private documentEmbeddings: Map<string, number[]> | null;
+
+  constructor(
+    documents: CrawledDocument[],
+    embeddingProvider: EmbeddingProvider,
+    config: Partial<HybridRetrievalConfig> = {},
+    bm25Service: BM25Service = new BM25Service(documents),
+  ) {
+    this.documents = documents;
+    this.embeddingProvider = embeddingProvider;
+    this.bm25Service = bm25Service;
+    this.config = {
+      rrfK: config.rrfK ?? 60,
+      denseWeight: config.denseWeight ?? 1,
+      bm25Weight: config.bm25Weight ?? 1,
+    };
+    this.documentEmbeddings = null;
+  }
+
+  async search(
+    query: string,
+    topK: number = 10,
+  ): Promise<HybridSearchResult[]> {
+    if (this.documents.length === 0) return [];
+
+    const bm25Ranking = this.bm25Service.search(query, this.documents.length);
+    const denseRanking = await this.rankByEmbedding(query);
+
+    const { rrfK, denseWeight, bm25Weight } = this.config;
+    const fused = new Map<string, HybridSearchResult>(
+      this.documents.map((document) => [
+        document.id,
+        { document, score: 0, bm25Score: 0, denseScore: 0 },
+      ]),
+    );
+
+    bm25Ranking.forEach(({ document, score }, idx) => {
+      const result = fused.get(document.id)!;
+      result.bm25Score = score;
+      result.score += bm25Weight / (rrfK + idx + 1);
+    });
+
+    denseRanking.forEach(({ document, score }, idx) => {
+      const result = fused.get(document.id)!;
+      result.denseScore = score;
+      result.score += denseWeight / (rrfK + idx + 1);
+    });
+
+    return Array.from(fused.values())
+      .filter((result) => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  private async rankByEmbedding(query: string) {
+    const [queryEmbedding] = await this.embeddingProvider.embed([query]);
+    const documentEmbeddings = await this.getDocumentEmbeddings();
+
+    return this.documents
+      .map((document) => ({
+        document,
+        score: this.cosineSimilarity(
+          queryEmbedding,
+          documentEmbeddings.get(document.id)!,
+        ),
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  private async getDocumentEmbeddings(): Promise<Map<string, number[]>> {
+    if (this.documentEmbeddings) {
+      return this.documentEmbeddings;
+    }
+
+    const embeddings = await this.embeddingProvider.embed(
+      this.documents.map(({ content }) => content),
+    );
+
+    this.documentEmbeddings = new Map(
+      this.documents.map(({ id }, idx) => [id, embeddings[idx]]),
+    );
+
+    return this.documentEmbeddings;
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+
+    if (normA === 0 || normB === 0) return 0;
+
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+  }
+}
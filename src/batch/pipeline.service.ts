@@ -0,0 +1,154 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from 'generated/prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { deserialize, serialize } from 'src/utils/serialize';
+import { PipelineStepName } from './types/types';
+
+/**
+ * 콘텐츠 생성 파이프라인의 단계별 상태와 결과를 저장하는 서비스입니다.
+ *
+ * @remarks
+ * - 완료된 단계는 다시 실행하지 않고 저장된 결과를 반환하므로, 재시도된 job은 실패한 단계부터 이어서 진행합니다.
+ * - DB에 쓰는 단계는 {@link runSaveStep}으로 실행하여 쓰기와 완료 처리를 한 트랜잭션으로 묶습니다.
+ *   중간에 실패해도 일부만 저장되거나 같은 데이터가 두 번 저장되지 않습니다.
+ * - 모든 단계가 끝나면 `completed` 단계를 기록하여, 단계 사이에서 중단된 job과 완료된 job을 구분합니다.
+ */
+@Injectable()
+export class PipelineService {
+  private readonly logger = new Logger(PipelineService.name);
+
+  constructor(private readonly prismaService: PrismaService) {}
+
+  async hasStep(keywordId: bigint, step: PipelineStepName): Promise<boolean> {
+    const saved = await this.prismaService.pipelineStep.findUnique({
+      select: { id: true },
+      where: { keywordId_step: { keywordId, step } },
+    });
+
+    return !!saved;
+  }
+
+  async isPipelineCompleted(keywordId: bigint): Promise<boolean> {
+    const saved = await this.prismaService.pipelineStep.findUnique({
+      select: { status: true },
+      where: { keywordId_step: { keywordId, step: 'completed' } },
+    });
+
+    return saved?.status === 'COMPLETED';
+  }
+
+  async completePipeline(keywordId: bigint): Promise<void> {
+    await this.prismaService.pipelineStep.upsert({
+      where: { keywordId_step: { keywordId, step: 'completed' } },
+      create: { keywordId, step: 'completed', status: 'COMPLETED' },
+      update: { status: 'COMPLETED', error: null },
+    });
+  }
+
+  /**
+   * 단계를 실행하고 결과를 저장합니다. 이미 완료된 단계면 저장된 결과를 반환합니다.
+   */
+  async runStep<T>(
+    keywordId: bigint,
+    step: PipelineStepName,
+    execute: () => Promise<T>,
+  ): Promise<T> {
+    const completed = await this.findCompleted<T>(keywordId, step);
+    if (completed) return completed.output;
+
+    await this.markRunning(keywordId, step);
+
+    try {
+      const output = await execute();
+
+      await this.prismaService.pipelineStep.update({
+        where: { keywordId_step: { keywordId, step } },
+        data: { status: 'COMPLETED', output: serialize(output), error: null },
+      });
+
+      return output;
+    } catch (error) {
+      await this.markFailed(keywordId, step, error);
+      throw error;
+    }
+  }
+
+  /**
+   * DB에 쓰는 단계를 실행합니다. 쓰기와 단계 완료 처리는 같은 트랜잭션에서 수행됩니다.
+   */
+  async runSaveStep<T>(
+    keywordId: bigint,
+    step: PipelineStepName,
+    save: (prisma: Prisma.TransactionClient) => Promise<T>,
+  ): Promise<T> {
+    const completed = await this.findCompleted<T>(keywordId, step);
+    if (completed) return completed.output;
+
+    await this.markRunning(keywordId, step);
+
+    try {
+      return await this.prismaService.$transaction(async (prisma) => {
+        const output = await save(prisma);
+
+        await prisma.pipelineStep.update({
+          where: { keywordId_step: { keywordId, step } },
+          data: {
+            status: 'COMPLETED',
+            output: serialize(output),
+            error: null,
+          },
+        });
+
+        return output;
+      });
+    } catch (error) {
+      await this.markFailed(keywordId, step, error);
+      throw error;
+    }
+  }
+
+  private async findCompleted<T>(
+    keywordId: bigint,
+    step: PipelineStepName,
+  ): Promise<{ output: T } | null> {
+    const saved = await this.prismaService.pipelineStep.findUnique({
+      select: { status: true, output: true },
+      where: { keywordId_step: { keywordId, step } },
+    });
+
+    if (saved?.status !== 'COMPLETED') return null;
+
+    this.logger.log(
+      `Skipping completed step "${step}" for keyword ID: ${keywordId}`,
+    );
+    return { output: deserialize<T>(saved.output ?? 'null') };
+  }
+
+  private async markRunning(keywordId: bigint, step: PipelineStepName) {
+    await this.prismaService.pipelineStep.upsert({
+      where: { keywordId_step: { keywordId, step } },
+      create: { keywordId, step, status: 'RUNNING' },
+      update: { status: 'RUNNING', error: null },
+    });
+  }
+
+  private async markFailed(
+    keywordId: bigint,
+    step: PipelineStepName,
+    error: unknown,
+  ) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    // 상태 저장에 실패하더라도 원래 오류가 job 실패 사유로 남도록 함
+    await this.prismaService.pipelineStep
+      .update({
+        where: { keywordId_step: { keywordId, step } },
+        data: { status: 'FAILED', error: message },
+      })
+      .catch((updateError: unknown) =>
+        this.logger.warn(
+          `Failed to mark step "${step}" as failed: ${updateError instanceof Error ? updateError.message : String(updateError)}`,
+        ),
+      );
+  }
+}
@@ -0,0 +1,11 @@
+export const appendDifficultyRubric = (prompt: string) => {
+  return `${prompt}
+<difficulty_rubric>
+각 퀴즈가 요구하는 사고 수준을 Bloom 분류(bloomLevel)로 정하고, 아래 기준에 따라 난이도(difficulty)를 표시해줘.
+- easy: remember(용어와 사실을 그대로 떠올림), understand(개념을 자신의 말로 설명하거나 구분함)
+- medium: apply(개념을 새로운 사례에 적용함), analyze(원인과 결과, 개념 사이의 관계를 따짐)
+- hard: evaluate(주장이나 정책의 타당성을 판단함), create(여러 개념을 종합해 결론을 이끌어냄)
+퀴즈가 여러 개라면 easy, medium, hard가 고르게 섞이도록 작성해줘.
+</difficulty_rubric>
+`;
+};
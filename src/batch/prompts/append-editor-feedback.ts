@@ -0,0 +1,8 @@
+export const appendEditorFeedback = (prompt: string, feedback?: string) => {
+  if (!feedback) return prompt;
+
+  return `${prompt}
+<editor_feedback>${feedback}</editor_feedback>
+위 내용은 이전 결과에 대한 편집자의 피드백입니다. 기존 요구사항을 지키면서 피드백을 반영해 다시 작성해줘.
+`;
+};
@@ -0,0 +1,6 @@
+export const createClozeQuizzesPrompts = (content: string, count: number) => {
+  return `
+<content>${content}</content>
+Content의 이해를 도울 수 있는 빈칸 채우기 퀴즈 ${count}개 작성해줘. description은 content의 핵심 용어 하나를 ____로 가린 문장으로 작성하고, 가린 용어를 answer에 적어줘. 빈칸에 들어갈 답이 하나로 정해지도록 작성해줘. 내용은 모두 한국어로 작성해줘
+`;
+};
@@ -23,6 +23,7 @@ Using the data above, please write an educational text explaining the concept of
 - Tone: Formal style.
 - Structure: Write in the order of definition → key content → simple example.
 - Format: News article format(no markdown needed).
+- Citations: Each item in reference_data has an "id". List the ids of every item you relied on in "citations", and do not list items you did not use.
 </requirements>
 
 <output_format>
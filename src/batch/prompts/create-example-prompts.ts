@@ -24,6 +24,7 @@ Using the data above, please write an educational text explaining the real-life
 - Prohibition : Since the concept of the keyword has already been written in another article, do not explain the concept of the keyword here.
 - Structure: Write in the order of specific real-life examples that learners can relate to in everyday life for the term → an appropriate analogy to aid understanding → example sentences of how the term is used in news articles or media..
 - Format: News article format(no markdown needed).
+- Citations: Each item in reference_data has an "id". List the ids of every item you relied on in "citations", and do not list items you did not use.
 </requirements>
 
 <output_format>
@@ -27,6 +27,7 @@ Using the data above, please write an educational text explaining the In-Depth E
   - Provide an in-depth analysis by connecting ${keyword} to a recent economic issue.
   - Conclude by posing a thought-provoking question for the learner to ponder further.
 - Format: News article format(no markdown needed).
+- Citations: Each item in reference_data has an "id". List the ids of every item you relied on in "citations", and do not list items you did not use.
 </requirements>
 
 <output_format>
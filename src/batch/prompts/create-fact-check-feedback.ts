@@ -0,0 +1,4 @@
+export const createFactCheckFeedback = (claims: string[]) => {
+  return `다음 문장은 reference_data로 뒷받침되지 않습니다. reference_data에 근거한 내용만 작성해줘.
+${claims.map((claim) => `- ${claim}`).join('\n')}`;
+};
@@ -0,0 +1,25 @@
+export const createFactCheckPrompts = (claims: string, json: string) => {
+  return `# Task: Verify that each claim is grounded in the reference data
+
+<reference_data>
+${json}
+</reference_data>
+
+<claims>
+${claims}
+</claims>
+
+<task>
+Each item in claims has an "index". For every claim, decide whether it is supported by the reference_data.
+</task>
+
+<requirements>
+- "supported": the reference_data states the claim or it follows directly from the reference_data.
+- "contradicted": the reference_data states something that conflicts with the claim.
+- "unsupported": the reference_data does not mention the claim (general knowledge that is not in the reference_data is also "unsupported").
+- refIds: List the ids of the reference_data items the verdict is based on. Leave it empty for "unsupported".
+- reason: Explain the verdict in one short sentence, in Korean.
+- Return exactly one verdict per claim.
+</requirements>
+`;
+};
@@ -27,6 +27,7 @@ Using the data above, please write an educational text explaining the Importance
   - Explain the impact on business management and the national economy (e.g., government policy, trade).
   - Conclude by emphasizing why one should know this term.
 - Format: News article format(no markdown needed).
+- Citations: Each item in reference_data has an "id". List the ids of every item you relied on in "citations", and do not list items you did not use.
 </requirements>
 
 <output_format>
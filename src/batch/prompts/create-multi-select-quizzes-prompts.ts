@@ -0,0 +1,9 @@
+export const createMultiSelectQuizzesPrompts = (
+  content: string,
+  count: number,
+) => {
+  return `
+<content>${content}</content>
+Content의 이해를 도울 수 있는 복수 선택 퀴즈 ${count}개 작성해줘. 보기 4개 중 정답은 2개 또는 3개이고, answers에는 정답 보기 번호를 모두 적어줘. description에 "모두 고르시오"처럼 복수 선택 문제임을 드러내줘. 내용은 모두 한국어로 작성해줘
+`;
+};
@@ -0,0 +1,6 @@
+export const createOxQuizzesPrompts = (content: string, count: number) => {
+  return `
+<content>${content}</content>
+Content의 이해를 도울 수 있는 O/X 퀴즈 ${count}개 작성해줘. description은 content를 근거로 참/거짓을 판단할 수 있는 하나의 문장으로 작성하고, 참이면 O, 거짓이면 X를 answer에 적어줘. 거짓 문장은 content의 내용을 그럴듯하게 바꿔서 만들어줘. 내용은 모두 한국어로 작성해줘
+`;
+};
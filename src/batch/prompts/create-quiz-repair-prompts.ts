@@ -0,0 +1,17 @@
+export const createQuizRepairPrompts = (
+  content: string,
+  quiz: string,
+  issues: string[],
+) => {
+  return `
+<content>${content}</content>
+<quiz>${quiz}</quiz>
+<issues>
+${issues.map((issue) => `- ${issue}`).join('\n')}
+</issues>
+Content를 바탕으로 만든 위 퀴즈에 issues의 문제가 있습니다. 문제를 모두 고친 퀴즈 1개를 같은 형식(type)으로 다시 작성해줘.
+- 각 항목은 스키마 설명의 글자 수 이하로 작성
+- 보기가 있는 문제는 보기가 서로 달라야 하고, 정답은 content로 확인할 수 있어야 함
+- 내용은 모두 한국어로 작성
+`;
+};
@@ -0,0 +1,29 @@
+export const createQuizReviewPrompts = (content: string, quizzes: string) => {
+  return `# Task: Solve each quiz using only the content
+
+<content>${content}</content>
+
+<quizzes>
+${quizzes}
+</quizzes>
+
+<task>
+Each item in quizzes has an "index", a "type" and a question ("description").
+Solve every quiz using only the content, without looking at any expected answer.
+</task>
+
+<quiz_types>
+- "multiple-choice": Pick the one correct option among "question1" to "question4". Answer with its number (e.g. "2").
+- "ox": Decide whether the statement in "description" is true. Answer "O" or "X".
+- "cloze": Fill the blank ("____") in "description". Answer with the term.
+- "multi-select": Pick every correct option among "question1" to "question4". Answer with their numbers separated by commas (e.g. "1,3").
+</quiz_types>
+
+<requirements>
+- answerable: false if the content does not contain enough information to decide a single answer.
+- answer: The answer according to the content in the format above, or null if it is not answerable.
+- reason: Explain the decision in one short sentence, in Korean.
+- Return exactly one review per quiz.
+</requirements>
+`;
+};
@@ -1,6 +1,6 @@
-export const createQuizzesPrompts = (content: string) => {
+export const createQuizzesPrompts = (content: string, count: number) => {
   return `
 <content>${content}</content>
-Content의 이해를 도울 수 있는 퀴즈 5개 작성해줘. 내용은 모두 한국어로 작성해줘
+Content의 이해를 도울 수 있는 4지선다 퀴즈 ${count}개 작성해줘. 정답은 1개이고, answer에는 정답 보기 번호를 적어줘. 내용은 모두 한국어로 작성해줘
 `;
 };
@@ -27,6 +27,7 @@ Using the data above, please write an educational text explaining the related wo
   - If there is a clear opposing or conflicting concept, present it as well. (e.g., inflation ↔ deflation)
   - Describe a scenario where these terms appear together
 - Format: News article format(no markdown needed).
+- Citations: Each item in reference_data has an "id". List the ids of every item you relied on in "citations", and do not list items you did not use.
 </requirements>
 
 <output_format>
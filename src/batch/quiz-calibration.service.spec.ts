@@ -0,0 +1,108 @@
+import { ConfigService } from '@nestjs/config';
+import { Queue } from 'bullmq';
+import { Quiz_type } from 'generated/prisma/client';
+import { EnvSchema } from 'src/config/validate-env';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { QuizCalibrationService } from './quiz-calibration.service';
+import { quizDraftSchemas } from './schemas/schemas';
+
+describe('QuizCalibrationService', () => {
+  const configService = {
+    get: () => '0 4 * * *',
+  } as unknown as ConfigService<EnvSchema, true>;
+  const service = new QuizCalibrationService(
+    configService,
+    {} as PrismaService,
+    {} as Queue,
+  );
+
+  it('실제 정답률과 찍어서 맞힐 확률을 보정한 정답률을 따로 계산한다', () => {
+    const result = service.calibrate('MULTIPLE_CHOICE', '2', [
+      { memberAnswer: '2', count: 10 },
+      { memberAnswer: '1', count: 10 },
+    ]);
+
+    expect(result.attemptCount).toBe(20);
+    expect(result.correctRate).toBe(0.5);
+    expect(result.adjustedCorrectRate).toBeCloseTo((0.5 - 0.25) / 0.75);
+    expect(result.empiricalDifficulty).toBe('hard');
+  });
+
+  it('O/X는 찍어서 맞힐 확률 1/2로 보정한다', () => {
+    const answerCounts = (answer: string, wrong: string) => [
+      { memberAnswer: answer, count: 16 },
+      { memberAnswer: wrong, count: 4 },
+    ];
+
+    const ox = service.calibrate('OX', 'O', answerCounts('O', 'X'));
+    const multipleChoice = service.calibrate(
+      'MULTIPLE_CHOICE',
+      '1',
+      answerCounts('1', '2'),
+    );
+
+    expect(ox.correctRate).toBe(0.8);
+    expect(ox.adjustedCorrectRate).toBeCloseTo(0.6);
+    expect(ox.empiricalDifficulty).toBe('medium');
+    expect(multipleChoice.correctRate).toBe(0.8);
+    expect(multipleChoice.empiricalDifficulty).toBe('easy');
+  });
+
+  it('보정된 정답률이 우연 수준보다 낮으면 0으로 기록한다', () => {
+    const result = service.calibrate('MULTIPLE_CHOICE', '1', [
+      { memberAnswer: '1', count: 2 },
+      { memberAnswer: '3', count: 18 },
+    ]);
+
+    expect(result.correctRate).toBe(0.1);
+    expect(result.adjustedCorrectRate).toBe(0);
+  });
+
+  it('빈칸은 보정하지 않고, 복수 선택은 정답 순서와 관계없이 채점한다', () => {
+    const cloze = service.calibrate('CLOZE', '기준금리', [
+      { memberAnswer: ' 기준금리 ', count: 10 },
+      { memberAnswer: '환율', count: 10 },
+    ]);
+    const multiSelect = service.calibrate('MULTI_SELECT', '1,3', [
+      { memberAnswer: '3,1', count: 20 },
+    ]);
+
+    expect(cloze.adjustedCorrectRate).toBe(0.5);
+    expect(multiSelect.adjustedCorrectRate).toBe(1);
+  });
+
+  it.each<[Quiz_type, string, readonly string[]]>([
+    [
+      'MULTIPLE_CHOICE',
+      '1',
+      Array.from({ length: 10 }, (_, index) => index + 1)
+        .filter(
+          (option) =>
+            quizDraftSchemas['multiple-choice'].shape.answer.safeParse(option)
+              .success,
+        )
+        .map(String),
+    ],
+    ['OX', 'O', quizDraftSchemas.ox.shape.answer.options],
+  ])(
+    '%s 스키마의 보기 수만큼 나눠 찍은 정답을 보정한다',
+    (type, answer, options) => {
+      // 절반은 정답을 알고, 나머지 절반은 모든 보기를 고르게 찍은 경우
+      const result = service.calibrate(type, answer, [
+        { memberAnswer: answer, count: 10 * options.length },
+        ...options.map((option) => ({ memberAnswer: option, count: 10 })),
+      ]);
+
+      expect(result.adjustedCorrectRate).toBeCloseTo(0.5);
+    },
+  );
+
+  it('풀이 수가 부족하면 난이도를 비워 둔다', () => {
+    const result = service.calibrate('MULTIPLE_CHOICE', '1', [
+      { memberAnswer: '1', count: 5 },
+    ]);
+
+    expect(result.attemptCount).toBe(5);
+    expect(result.empiricalDifficulty).toBeNull();
+  });
+});
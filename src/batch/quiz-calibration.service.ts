@@ -0,0 +1,159 @@
+import { InjectQueue } from '@nestjs/bullmq';
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Queue } from 'bullmq';
+import { Quiz_type } from 'generated/prisma/client';
+import { EnvSchema } from 'src/config/validate-env';
+import { BATCH_OPTIONS } from 'src/constants/batch-options';
+import { QUIZ_DIFFICULTY_COLUMNS } from 'src/constants/quiz-levels';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { isSameQuizAnswer } from './schemas/schemas';
+import { QuizCalibration, QuizDifficulty, QuizType } from './types/types';
+
+/** 형식별 퀴즈 형식과 찍어서 맞힐 확률 (각 형식 스키마의 정답 범위와 같아야 함) */
+const QUIZ_TYPES: Record<Quiz_type, { type: QuizType; guessChance: number }> = {
+  MULTIPLE_CHOICE: { type: 'multiple-choice', guessChance: 1 / 4 },
+  OX: { type: 'ox', guessChance: 1 / 2 },
+  CLOZE: { type: 'cloze', guessChance: 0 },
+  // 보기 4개 중 정답 2~3개의 조합 (4C2 + 4C3)
+  MULTI_SELECT: { type: 'multi-select', guessChance: 1 / 10 },
+};
+
+/**
+ * 학습자의 풀이 기록(`MemberQuiz`)으로 퀴즈의 실제 난이도를 계산하는 서비스입니다.
+ *
+ * @remarks
+ * - `QUIZ_CALIBRATION_CRON` 주기로 실행되는 repeatable job을 애플리케이션 시작 시 등록합니다.
+ * - `correctRate`에는 실제 정답률을, `adjustedCorrectRate`에는 형식별로 찍어서 맞힐 확률을 보정한 정답률(`(p - g) / (1 - g)`)을 기록합니다.
+ * - 난이도는 보정된 정답률로 계산하며, 풀이 수가 `QUIZ_CALIBRATION_MIN_ATTEMPTS`보다 적은 퀴즈는 비워 둡니다.
+ */
+@Injectable()
+export class QuizCalibrationService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(QuizCalibrationService.name);
+
+  private readonly cron: string;
+
+  constructor(
+    configService: ConfigService<EnvSchema, true>,
+    private readonly prismaService: PrismaService,
+    @InjectQueue(BATCH_OPTIONS.QUEUE_NAME) private readonly batchQueue: Queue,
+  ) {
+    this.cron = configService.get('QUIZ_CALIBRATION_CRON', { infer: true });
+  }
+
+  async onApplicationBootstrap(): Promise<void> {
+    await this.batchQueue.upsertJobScheduler(
+      BATCH_OPTIONS.RECALIBRATE_QUIZZES_SCHEDULER_ID,
+      { pattern: this.cron },
+      { name: BATCH_OPTIONS.RECALIBRATE_QUIZZES_JOB_NAME },
+    );
+    this.logger.log(`Scheduled quiz recalibration with cron: ${this.cron}`);
+  }
+
+  /**
+   * 풀이 기록이 있는 모든 퀴즈의 난이도를 다시 계산합니다.
+   */
+  async recalibrate(): Promise<number> {
+    this.logger.log('Starting quiz difficulty recalibration');
+
+    const calibratedAt = new Date();
+    let cursor: bigint | undefined;
+    let calibratedCount = 0;
+
+    for (;;) {
+      const quizzes = await this.prismaService.quiz.findMany({
+        select: { id: true, type: true, answer: true },
+        where: { deletedAt: null, MemberQuiz: { some: {} } },
+        orderBy: { id: 'asc' },
+        take: BATCH_OPTIONS.QUIZ_CALIBRATION_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      if (quizzes.length === 0) break;
+
+      const answerCounts = await this.prismaService.memberQuiz.groupBy({
+        by: ['quizId', 'memberAnswer'],
+        where: { quizId: { in: quizzes.map(({ id }) => id) } },
+        _count: { _all: true },
+      });
+
+      await this.prismaService.$transaction(
+        quizzes.map(({ id, type, answer }) => {
+          const calibration = this.calibrate(
+            type,
+            answer,
+            answerCounts
+              .filter(({ quizId }) => quizId === id)
+              .map(({ memberAnswer, _count }) => ({
+                memberAnswer,
+                count: _count._all,
+              })),
+          );
+
+          return this.prismaService.quiz.update({
+            where: { id },
+            data: {
+              attemptCount: calibration.attemptCount,
+              correctRate: calibration.correctRate,
+              adjustedCorrectRate: calibration.adjustedCorrectRate,
+              empiricalDifficulty: calibration.empiricalDifficulty
+                ? QUIZ_DIFFICULTY_COLUMNS[calibration.empiricalDifficulty]
+                : null,
+              calibratedAt,
+            },
+          });
+        }),
+      );
+
+      calibratedCount += quizzes.length;
+      cursor = quizzes[quizzes.length - 1].id;
+    }
+
+    this.logger.log(`Recalibrated difficulty of ${calibratedCount} quizzes`);
+    return calibratedCount;
+  }
+
+  /**
+   * 답안별 풀이 수로 실제 정답률과 보정된 정답률, 난이도를 계산합니다.
+   */
+  calibrate(
+    quizType: Quiz_type,
+    answer: string,
+    answerCounts: { memberAnswer: string; count: number }[],
+  ): QuizCalibration {
+    const { type, guessChance } = QUIZ_TYPES[quizType];
+
+    let attemptCount = 0;
+    let correctCount = 0;
+    for (const { memberAnswer, count } of answerCounts) {
+      attemptCount += count;
+      if (isSameQuizAnswer(type, answer, memberAnswer)) correctCount += count;
+    }
+
+    const correctRate = attemptCount > 0 ? correctCount / attemptCount : 0;
+    const adjustedCorrectRate = Math.max(
+      0,
+      (correctRate - guessChance) / (1 - guessChance),
+    );
+
+    return {
+      attemptCount,
+      correctRate,
+      adjustedCorrectRate,
+      empiricalDifficulty:
+        attemptCount < BATCH_OPTIONS.QUIZ_CALIBRATION_MIN_ATTEMPTS
+          ? null
+          : this.toDifficulty(adjustedCorrectRate),
+    };
+  }
+
+  private toDifficulty(adjustedCorrectRate: number): QuizDifficulty {
+    if (adjustedCorrectRate >= BATCH_OPTIONS.QUIZ_EASY_MIN_CORRECT_RATE) {
+      return 'easy';
+    }
+    if (adjustedCorrectRate >= BATCH_OPTIONS.QUIZ_MEDIUM_MIN_CORRECT_RATE) {
+      return 'medium';
+    }
+    return 'hard';
+  }
+}
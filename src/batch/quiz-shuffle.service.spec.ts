@@ -0,0 +1,180 @@
+import { QuizShuffleService } from './quiz-shuffle.service';
+import { QuizSchema } from './schemas/schemas';
+
+const LEVEL = { bloomLevel: 'remember', difficulty: 'easy' } as const;
+
+type MultipleChoiceQuiz = Extract<QuizSchema, { type: 'multiple-choice' }>;
+
+const createQuiz = (index: number, answer = 1): MultipleChoiceQuiz => ({
+  type: 'multiple-choice',
+  description: `문제 ${index}`,
+  explanation: `해설 ${index}`,
+  ...LEVEL,
+  question1: `보기 ${index}-1`,
+  question2: `보기 ${index}-2`,
+  question3: `보기 ${index}-3`,
+  question4: `보기 ${index}-4`,
+  answer,
+});
+
+const OPTION_KEYS = [
+  'question1',
+  'question2',
+  'question3',
+  'question4',
+] as const;
+
+const getAnswerText = (quiz: MultipleChoiceQuiz) =>
+  quiz[OPTION_KEYS[quiz.answer - 1]];
+
+const shuffleChoice = (service: QuizShuffleService, quiz: MultipleChoiceQuiz) =>
+  service.shuffle(quiz) as MultipleChoiceQuiz;
+
+describe('QuizShuffleService', () => {
+  it('보기를 섞어도 정답 보기와 보기 구성은 유지된다', () => {
+    const service = new QuizShuffleService('seed');
+
+    for (let i = 0; i < 20; i++) {
+      const quiz = createQuiz(i, (i % 4) + 1);
+      const shuffled = shuffleChoice(service, quiz);
+
+      expect(getAnswerText(shuffled)).toBe(getAnswerText(quiz));
+      expect(OPTION_KEYS.map((key) => shuffled[key]).sort()).toEqual(
+        OPTION_KEYS.map((key) => quiz[key]).sort(),
+      );
+      expect(shuffled.description).toBe(quiz.description);
+    }
+  });
+
+  it('정답이 모두 1번이어도 위치별 정답 수의 차이는 1 이하로 분배된다', () => {
+    const service = new QuizShuffleService('keyword:1');
+
+    for (let i = 1; i <= 25; i++) {
+      shuffleChoice(service, createQuiz(i));
+
+      const counts = service.getCounts();
+      expect(Math.max(...counts) - Math.min(...counts)).toBeLessThanOrEqual(1);
+    }
+
+    expect(service.getCounts().reduce((sum, count) => sum + count)).toBe(25);
+  });
+
+  it('기존 정답 분포에서 부족한 위치부터 채운다', () => {
+    const service = new QuizShuffleService('keyword:1', [3, 3, 0, 1]);
+
+    const answers = [1, 2, 3].map(
+      (i) => shuffleChoice(service, createQuiz(i)).answer,
+    );
+
+    expect(answers.sort()).toEqual([3, 3, 4]);
+    expect(service.getCounts()).toEqual([3, 3, 2, 2]);
+  });
+
+  it('같은 시드는 같은 결과를, 다른 시드는 다른 결과를 만든다', () => {
+    const shuffleAll = (seed: string) => {
+      const service = new QuizShuffleService(seed);
+      return Array.from({ length: 20 }, (_, i) =>
+        shuffleChoice(service, createQuiz(i)),
+      );
+    };
+
+    expect(shuffleAll('keyword:1')).toEqual(shuffleAll('keyword:1'));
+    expect(shuffleAll('keyword:1')).not.toEqual(shuffleAll('keyword:2'));
+  });
+
+  it('아티클별 시드에 이전 분포를 이어 넘기면 중간부터 다시 실행해도 같은 결과가 나온다', () => {
+    const articleQuizzes = [1, 2, 3].map((article) =>
+      Array.from({ length: 5 }, (_, i) => createQuiz(article * 10 + i)),
+    );
+    const shuffleArticles = (articleIds: number[], initialCounts: number[]) => {
+      let counts = initialCounts;
+      return articleIds.map((articleId) => {
+        const service = new QuizShuffleService(`1:${articleId}`, counts);
+        const shuffled = articleQuizzes[articleId - 1].map((quiz) =>
+          shuffleChoice(service, quiz),
+        );
+        counts = service.getCounts();
+        return { shuffled, counts };
+      });
+    };
+
+    const firstRun = shuffleArticles([1, 2, 3], [0, 0, 0, 0]);
+    // 1번 아티클까지 저장된 뒤 재시도된 경우
+    const retried = shuffleArticles([2, 3], firstRun[0].counts);
+
+    expect(retried).toEqual(firstRun.slice(1));
+    const { counts } = firstRun[2];
+    expect(Math.max(...counts) - Math.min(...counts)).toBeLessThanOrEqual(1);
+  });
+
+  it('오답 보기의 배치도 특정 순서로 치우치지 않는다', () => {
+    const service = new QuizShuffleService('distractors');
+    const firstDistractors = new Map<string, number>();
+
+    for (let i = 0; i < 400; i++) {
+      const shuffled = shuffleChoice(service, createQuiz(i));
+      // 정답이 4번일 때 1번 자리에 온 오답의 원래 위치를 집계
+      if (shuffled.answer === 4) {
+        const original = shuffled.question1.split('-')[1];
+        firstDistractors.set(
+          original,
+          (firstDistractors.get(original) ?? 0) + 1,
+        );
+      }
+    }
+
+    // 정답 4번인 퀴즈는 100개이고, 원래 2~4번 오답이 각각 대략 1/3씩 나와야 함
+    expect([...firstDistractors.keys()].sort()).toEqual(['2', '3', '4']);
+    for (const count of firstDistractors.values()) {
+      expect(count).toBeGreaterThan(20);
+      expect(count).toBeLessThan(50);
+    }
+  });
+
+  it('복수 선택은 정답 위치 분배 없이 보기를 섞고 정답 번호를 다시 매긴다', () => {
+    const service = new QuizShuffleService('multi-select');
+    const quiz: QuizSchema = {
+      type: 'multi-select',
+      description: '기준금리 인상의 효과를 모두 고르시오.',
+      explanation: '해설',
+      ...LEVEL,
+      question1: '대출 이자 증가',
+      question2: '물가 상승 억제',
+      question3: '수출 증가',
+      question4: '주가 상승',
+      answers: [1, 2],
+    };
+
+    for (let i = 0; i < 10; i++) {
+      const shuffled = service.shuffle(quiz);
+      if (shuffled.type !== 'multi-select') throw new Error(shuffled.type);
+
+      expect(
+        shuffled.answers.map((answer) => shuffled[OPTION_KEYS[answer - 1]]),
+      ).toEqual(expect.arrayContaining(['대출 이자 증가', '물가 상승 억제']));
+      expect(shuffled.answers).toHaveLength(2);
+    }
+    expect(service.getCounts()).toEqual([0, 0, 0, 0]);
+  });
+
+  it('O/X와 빈칸 채우기는 그대로 반환한다', () => {
+    const service = new QuizShuffleService('seed');
+    const ox: QuizSchema = {
+      type: 'ox',
+      description: '기준금리는 한국은행이 정한다.',
+      explanation: '해설',
+      ...LEVEL,
+      answer: 'O',
+    };
+    const cloze: QuizSchema = {
+      type: 'cloze',
+      description: '____는 한국은행이 정하는 정책 금리이다.',
+      explanation: '해설',
+      ...LEVEL,
+      answer: '기준금리',
+    };
+
+    expect(service.shuffle(ox)).toBe(ox);
+    expect(service.shuffle(cloze)).toBe(cloze);
+  });
+});
@@ -0,0 +1,120 @@
+import { createHash } from 'crypto';
+import { QuizSchema } from './schemas/schemas';
+
+type MultiSelectQuiz = Extract<QuizSchema, { type: 'multi-select' }>;
+
+const OPTION_KEYS = [
+  'question1',
+  'question2',
+  'question3',
+  'question4',
+] as const;
+
+/**
+ * 퀴즈의 보기 순서를 섞고 정답 위치를 고르게 분배하는 서비스 클래스입니다.
+ *
+ * @remarks
+ * 1. **정답 위치 분배**:
+ * - 지금까지 배정된 위치별 정답 수(`counts`)가 가장 적은 위치 중 하나에 정답을 배치합니다.
+ * - 이전 인스턴스의 `getCounts()`를 다음 인스턴스의 `initialCounts`로 넘기면,
+ *   시드가 달라도 같은 키워드의 위치별 정답 수의 차이가 1 이하로 유지됩니다.
+ *
+ * 2. **시드 기반 셔플**:
+ * - 시드 문자열의 sha256 해시로 초기화한 mulberry32 난수를 사용하므로,
+ *   같은 시드, 같은 `initialCounts`와 같은 입력 순서에서는 항상 같은 결과가 나옵니다.
+ * - 동률인 위치 선택과 오답 보기의 순서를 이 난수로 결정합니다.
+ * - 아티클마다 시드를 따로 두면, 앞선 아티클의 처리 여부와 관계없이 아티클별 결과가 재현됩니다.
+ *
+ * 3. **형식별 처리**:
+ * - 정답 위치 분배는 4지선다에만 적용합니다.
+ * - 복수 선택은 보기 순서만 섞고 정답 번호를 다시 매깁니다.
+ * - O/X와 빈칸 채우기는 보기가 없으므로 그대로 반환합니다.
+ */
+export class QuizShuffleService {
+  private state: number;
+
+  private counts: number[];
+
+  constructor(seed: string, initialCounts: number[] = [0, 0, 0, 0]) {
+    this.state = createHash('sha256').update(seed).digest().readUInt32LE(0);
+    this.counts = [...initialCounts];
+  }
+
+  shuffle(quiz: QuizSchema): QuizSchema {
+    switch (quiz.type) {
+      case 'ox':
+      case 'cloze':
+        return quiz;
+      case 'multi-select':
+        return this.shuffleMultiSelect(quiz);
+    }
+
+    const options = OPTION_KEYS.map((key) => quiz[key]);
+    const correct = options[quiz.answer - 1];
+    const distractors = this.permute(
+      options.filter((_, index) => index !== quiz.answer - 1),
+    );
+
+    const minCount = Math.min(...this.counts);
+    const candidates = this.counts
+      .map((count, position) => ({ count, position }))
+      .filter(({ count }) => count === minCount)
+      .map(({ position }) => position);
+    const target = candidates[Math.floor(this.next() * candidates.length)];
+    this.counts[target]++;
+
+    const shuffled = [...distractors];
+    shuffled.splice(target, 0, correct);
+
+    return {
+      ...quiz,
+      question1: shuffled[0],
+      question2: shuffled[1],
+      question3: shuffled[2],
+      question4: shuffled[3],
+      answer: target + 1,
+    };
+  }
+
+  private shuffleMultiSelect(quiz: MultiSelectQuiz): MultiSelectQuiz {
+    const order = this.permute([0, 1, 2, 3]);
+    const shuffled = order.map((index) => quiz[OPTION_KEYS[index]]);
+
+    return {
+      ...quiz,
+      question1: shuffled[0],
+      question2: shuffled[1],
+      question3: shuffled[2],
+      question4: shuffled[3],
+      answers: quiz.answers
+        .map((answer) => order.indexOf(answer - 1) + 1)
+        .sort((a, b) => a - b),
+    };
+  }
+
+  /** 4지선다의 위치별 정답 수 (인덱스 0이 1번 보기) */
+  getCounts(): number[] {
+    return [...this.counts];
+  }
+
+  /** Fisher-Yates 셔플 */
+  private permute<T>(items: T[]): T[] {
+    const result = [...items];
+
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+
+    return result;
+  }
+
+  /** mulberry32: [0, 1) 범위의 난수 */
+  private next(): number {
+    this.state = (this.state + 0x6d2b79f5) | 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
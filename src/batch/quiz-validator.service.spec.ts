@@ -0,0 +1,153 @@
+import { QuizValidatorService } from './quiz-validator.service';
+import {
+  formatQuizAnswer,
+  QuizDraftSchema,
+  QuizSchema,
+} from './schemas/schemas';
+import { QuizReview, QuizReviewer } from './types/types';
+
+const LEVEL = { bloomLevel: 'remember', difficulty: 'easy' } as const;
+
+type MultipleChoiceQuiz = Extract<QuizDraftSchema, { type: 'multiple-choice' }>;
+
+const createQuiz = (
+  description: string,
+  overrides: Partial<MultipleChoiceQuiz> = {},
+): MultipleChoiceQuiz => ({
+  type: 'multiple-choice',
+  description,
+  explanation: '기준금리는 한국은행이 정하는 정책 금리입니다.',
+  ...LEVEL,
+  question1: '한국은행',
+  question2: '기획재정부',
+  question3: '금융감독원',
+  question4: '국회',
+  answer: 1,
+  ...overrides,
+});
+
+const createReviewer = (
+  review: (quizzes: QuizSchema[]) => QuizReview[] = (quizzes) =>
+    quizzes.map((quiz, index) => ({
+      index,
+      answerable: true,
+      answer: formatQuizAnswer(quiz),
+      reason: '',
+    })),
+) => {
+  const reviewer = {
+    review: jest.fn((_content: string, quizzes: QuizSchema[]) =>
+      Promise.resolve(review(quizzes)),
+    ),
+  } satisfies QuizReviewer;
+  return reviewer;
+};
+
+describe('QuizValidatorService', () => {
+  it('컬럼 길이를 넘거나 보기가 중복된 퀴즈는 LLM 검토 없이 실패한다', async () => {
+    const reviewer = createReviewer();
+    const service = new QuizValidatorService(reviewer);
+
+    const { valid, invalid } = await service.validate('본문', [
+      createQuiz('기준금리를 정하는 기관은?', {
+        explanation: '가'.repeat(513),
+      }),
+      createQuiz('기준금리를 결정하는 곳은?', { question2: '한국 은행' }),
+      createQuiz('통화정책을 담당하는 기관은?'),
+    ]);
+
+    expect(valid.map(({ description }) => description)).toEqual([
+      '통화정책을 담당하는 기관은?',
+    ]);
+    expect(invalid[0].issues[0]).toMatch(/^explanation: /);
+    expect(invalid[1].issues).toEqual(['보기 4개는 서로 달라야 합니다.']);
+    expect(reviewer.review).toHaveBeenCalledWith('본문', [
+      createQuiz('통화정책을 담당하는 기관은?'),
+    ]);
+  });
+
+  it('이미 통과한 퀴즈나 앞선 퀴즈와 문제가 같으면 실패한다', async () => {
+    const service = new QuizValidatorService(createReviewer());
+
+    const { valid, invalid } = await service.validate(
+      '본문',
+      [createQuiz('기준금리를 정하는 기관은?'), createQuiz('새 문제입니다?')],
+      [createQuiz('기준금리를 정하는 기관은 ?')],
+    );
+
+    expect(valid).toHaveLength(1);
+    expect(invalid).toEqual([
+      {
+        quiz: createQuiz('기준금리를 정하는 기관은?'),
+        issues: ['같은 아티클의 다른 퀴즈와 문제가 같습니다.'],
+      },
+    ]);
+  });
+
+  it('아티클로 풀 수 없거나 LLM이 푼 정답이 answer와 다르면 실패한다', async () => {
+    const service = new QuizValidatorService(
+      createReviewer(() => [
+        { index: 0, answerable: false, answer: null, reason: '언급 없음' },
+        { index: 1, answerable: true, answer: '2', reason: '본문 2문단' },
+        { index: 2, answerable: true, answer: '1', reason: '본문 1문단' },
+      ]),
+    );
+
+    const { valid, invalid } = await service.validate('본문', [
+      createQuiz('첫 번째 문제?'),
+      createQuiz('두 번째 문제?'),
+      createQuiz('세 번째 문제?'),
+    ]);
+
+    expect(valid.map(({ description }) => description)).toEqual([
+      '세 번째 문제?',
+    ]);
+    expect(invalid.map(({ issues }) => issues)).toEqual([
+      ['아티클 내용으로 풀 수 없는 문제입니다. (언급 없음)'],
+      ['아티클 내용에 따른 정답은 2이지만 퀴즈의 정답은 1입니다. (본문 2문단)'],
+    ]);
+  });
+
+  it('빈칸 채우기는 빈칸이 있어야 하고, 정답은 공백과 순서를 무시하고 비교한다', async () => {
+    const service = new QuizValidatorService(
+      createReviewer(() => [
+        { index: 0, answerable: true, answer: '기준 금리', reason: '' },
+        { index: 1, answerable: true, answer: '3, 1', reason: '' },
+      ]),
+    );
+
+    const { valid, invalid } = await service.validate('본문', [
+      {
+        type: 'cloze',
+        description: '기준금리는 한국은행이 정하는 정책 금리이다.',
+        explanation: '해설',
+        ...LEVEL,
+        answer: '기준금리',
+      },
+      {
+        type: 'cloze',
+        description: '____는 한국은행이 정하는 정책 금리이다.',
+        explanation: '해설',
+        ...LEVEL,
+        answer: '기준금리',
+      },
+      {
+        type: 'multi-select',
+        description: '기준금리 인상의 효과를 모두 고르시오.',
+        explanation: '해설',
+        ...LEVEL,
+        question1: '대출 이자 증가',
+        question2: '수출 증가',
+        question3: '물가 상승 억제',
+        question4: '주가 상승',
+        answers: [1, 3],
+      },
+    ]);
+
+    expect(invalid).toHaveLength(1);
+    expect(invalid[0].issues).toEqual([
+      'description에 빈칸(____)이 있어야 합니다.',
+    ]);
+    expect(valid.map(({ type }) => type)).toEqual(['cloze', 'multi-select']);
+  });
+});
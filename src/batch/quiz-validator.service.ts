@@ -0,0 +1,100 @@
+import {
+  formatQuizAnswer,
+  isSameQuizAnswer,
+  normalizeQuizText,
+  QuizDraftSchema,
+  QuizSchema,
+  quizSchema,
+} from './schemas/schemas';
+import { InvalidQuiz, QuizReviewer, QuizValidationResult } from './types/types';
+
+/**
+ * AI가 생성한 퀴즈의 품질을 검증하는 서비스 클래스입니다.
+ *
+ * @remarks
+ * 1. **형식 검증 (`quizSchema`)**:
+ * - `Quiz` 테이블의 컬럼 길이를 넘는 문자열, 중복된 보기, 빈칸이 없는 빈칸 채우기 문제 등을 찾습니다.
+ *
+ * 2. **중복 문제**:
+ * - 같은 아티클에서 이미 통과한 퀴즈(`accepted`) 또는 앞선 퀴즈와 문제가 같으면 실패입니다.
+ *
+ * 3. **풀이 가능 여부 (LLM)**:
+ * - 형식 검증을 통과한 퀴즈만 아티클을 근거로 풀어 보고,
+ *   풀 수 없거나 정답이 퀴즈의 정답과 다르면 실패입니다. (복수 선택은 순서를 무시하고 비교)
+ *
+ * 실패한 퀴즈는 이유(`issues`)와 함께 반환되어 보정 프롬프트에 사용됩니다.
+ */
+export class QuizValidatorService {
+  constructor(private readonly quizReviewer: QuizReviewer) {}
+
+  async validate(
+    content: string,
+    quizzes: QuizDraftSchema[],
+    accepted: QuizSchema[] = [],
+  ): Promise<QuizValidationResult> {
+    const seenQuestions = new Set(
+      accepted.map(({ description }) => normalizeQuizText(description)),
+    );
+    const invalid: InvalidQuiz[] = [];
+    const candidates: QuizSchema[] = [];
+
+    for (const quiz of quizzes) {
+      const result = quizSchema.safeParse(quiz);
+      const issues = result.success
+        ? []
+        : result.error.issues.map(({ path, message }) =>
+            path.length > 0 ? `${path.join('.')}: ${message}` : message,
+          );
+      const question = normalizeQuizText(quiz.description);
+
+      if (seenQuestions.has(question)) {
+        issues.push('같은 아티클의 다른 퀴즈와 문제가 같습니다.');
+      }
+      seenQuestions.add(question);
+
+      if (result.success && issues.length === 0) {
+        candidates.push(result.data);
+      } else {
+        invalid.push({ quiz, issues });
+      }
+    }
+
+    if (candidates.length === 0) return { valid: [], invalid };
+
+    const reviews = new Map(
+      (await this.quizReviewer.review(content, candidates)).map((review) => [
+        review.index,
+        review,
+      ]),
+    );
+    const valid: QuizSchema[] = [];
+
+    candidates.forEach((quiz, index) => {
+      const review = reviews.get(index);
+
+      if (!review) {
+        // 검토 결과가 누락된 퀴즈는 판단할 근거가 없으므로 통과시킴
+        valid.push(quiz);
+      } else if (!review.answerable) {
+        invalid.push({
+          quiz,
+          issues: [`아티클 내용으로 풀 수 없는 문제입니다. (${review.reason})`],
+        });
+      } else if (
+        review.answer === null ||
+        !isSameQuizAnswer(quiz.type, formatQuizAnswer(quiz), review.answer)
+      ) {
+        invalid.push({
+          quiz,
+          issues: [
+            `아티클 내용에 따른 정답은 ${review.answer}이지만 퀴즈의 정답은 ${formatQuizAnswer(quiz)}입니다. (${review.reason})`,
+          ],
+        });
+      } else {
+        valid.push(quiz);
+      }
+    });
+
+    return { valid, invalid };
+  }
+}
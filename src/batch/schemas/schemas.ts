@@ -1,22 +1,254 @@
+import { BATCH_OPTIONS } from 'src/constants/batch-options';
 import z from 'zod';
+import { RegenerateQueueData } from '../types/types';
 
 export const articleSchema = z.object({
   title: z.string().nonempty(),
   content: z.string().nonempty(),
+  citations: z
+    .array(z.string())
+    .describe('ids of the reference_data items the content relied on'),
 });
 
 export type ArticleSchema = z.infer<typeof articleSchema>;
 
-export const quizSchema = z.object({
-  description: z.string().nonempty(),
-  explanation: z.string().nonempty(),
-  question1: z.string().nonempty(),
-  question2: z.string().nonempty(),
-  question3: z.string().nonempty(),
-  question4: z.string().nonempty(),
-  answer: z.int().min(1).max(4),
+export const factCheckSchema = z.object({
+  verdicts: z.array(
+    z.object({
+      index: z.int().nonnegative(),
+      verdict: z.enum(['supported', 'unsupported', 'contradicted']),
+      refIds: z
+        .array(z.string())
+        .describe('ids of the reference_data items the verdict is based on'),
+      reason: z.string(),
+    }),
+  ),
 });
 
-export const quizArraySchema = z.object({
-  quizzes: z.array(quizSchema).length(5),
+const {
+  QUIZ_TEXT_MAX_LENGTH,
+  QUIZ_EXPLANATION_MAX_LENGTH,
+  QUIZ_ANSWER_MAX_LENGTH,
+} = BATCH_OPTIONS;
+
+type QuizText = (maxLength: number) => z.ZodString;
+
+/** 생성 단계의 문자열 (길이 제한은 설명으로만 전달) */
+const draftText: QuizText = (maxLength) =>
+  z.string().nonempty().describe(`at most ${maxLength} characters`);
+
+/** 저장 단계의 문자열 (`Quiz` 테이블의 컬럼 길이) */
+const strictText: QuizText = (maxLength) =>
+  z.string().nonempty().max(maxLength);
+
+/** 공백/문장부호와 대소문자를 무시한 비교용 문자열 */
+export const normalizeQuizText = (text: string) =>
+  text.replace(/[\s\p{P}]/gu, '').toLowerCase();
+
+const hasDistinctOptions = (options: {
+  question1: string;
+  question2: string;
+  question3: string;
+  question4: string;
+}) =>
+  new Set(
+    [
+      options.question1,
+      options.question2,
+      options.question3,
+      options.question4,
+    ].map(normalizeQuizText),
+  ).size === 4;
+
+const DISTINCT_OPTIONS_MESSAGE = '보기 4개는 서로 달라야 합니다.';
+
+/** Bloom 분류 단계와 난이도 (루브릭은 `appendDifficultyRubric` 참고) */
+const quizLevelShape = {
+  bloomLevel: z.enum([
+    'remember',
+    'understand',
+    'apply',
+    'analyze',
+    'evaluate',
+    'create',
+  ]),
+  difficulty: z.enum(['easy', 'medium', 'hard']),
+};
+
+const createMultipleChoiceQuizSchema = (text: QuizText) =>
+  z.object({
+    type: z.literal('multiple-choice'),
+    description: text(QUIZ_TEXT_MAX_LENGTH),
+    explanation: text(QUIZ_EXPLANATION_MAX_LENGTH),
+    ...quizLevelShape,
+    question1: text(QUIZ_TEXT_MAX_LENGTH),
+    question2: text(QUIZ_TEXT_MAX_LENGTH),
+    question3: text(QUIZ_TEXT_MAX_LENGTH),
+    question4: text(QUIZ_TEXT_MAX_LENGTH),
+    answer: z.int().min(1).max(4),
+  });
+
+const createOxQuizSchema = (text: QuizText) =>
+  z.object({
+    type: z.literal('ox'),
+    description: text(QUIZ_TEXT_MAX_LENGTH).describe(
+      'a statement about the content that is either true or false',
+    ),
+    explanation: text(QUIZ_EXPLANATION_MAX_LENGTH),
+    ...quizLevelShape,
+    answer: z.enum(['O', 'X']),
+  });
+
+const createClozeQuizSchema = (text: QuizText) =>
+  z.object({
+    type: z.literal('cloze'),
+    description: text(QUIZ_TEXT_MAX_LENGTH).describe(
+      'a sentence about the content with the key term replaced by "____"',
+    ),
+    explanation: text(QUIZ_EXPLANATION_MAX_LENGTH),
+    ...quizLevelShape,
+    answer: text(QUIZ_ANSWER_MAX_LENGTH).describe(
+      'the key term that fills the blank',
+    ),
+  });
+
+const createMultiSelectQuizSchema = (text: QuizText) =>
+  z.object({
+    type: z.literal('multi-select'),
+    description: text(QUIZ_TEXT_MAX_LENGTH),
+    explanation: text(QUIZ_EXPLANATION_MAX_LENGTH),
+    ...quizLevelShape,
+    question1: text(QUIZ_TEXT_MAX_LENGTH),
+    question2: text(QUIZ_TEXT_MAX_LENGTH),
+    question3: text(QUIZ_TEXT_MAX_LENGTH),
+    question4: text(QUIZ_TEXT_MAX_LENGTH),
+    answers: z
+      .array(z.int().min(1).max(4))
+      .min(2)
+      .max(3)
+      .describe('numbers of all correct options'),
+  });
+
+/**
+ * AI가 생성한 퀴즈의 형태 (형식별)
+ * 길이 등 품질 조건은 `quizSchema`로 퀴즈마다 따로 검증하여, 실패한 퀴즈만 보정합니다.
+ */
+export const quizDraftSchemas = {
+  'multiple-choice': createMultipleChoiceQuizSchema(draftText),
+  ox: createOxQuizSchema(draftText),
+  cloze: createClozeQuizSchema(draftText),
+  'multi-select': createMultiSelectQuizSchema(draftText),
+};
+
+export const quizDraftSchema = z.discriminatedUnion('type', [
+  quizDraftSchemas['multiple-choice'],
+  quizDraftSchemas.ox,
+  quizDraftSchemas.cloze,
+  quizDraftSchemas['multi-select'],
+]);
+
+export type QuizDraftSchema = z.infer<typeof quizDraftSchema>;
+
+export const multipleChoiceQuizSchema = createMultipleChoiceQuizSchema(
+  strictText,
+).refine(hasDistinctOptions, { message: DISTINCT_OPTIONS_MESSAGE });
+
+export const oxQuizSchema = createOxQuizSchema(strictText);
+
+export const clozeQuizSchema = createClozeQuizSchema(strictText).refine(
+  ({ description }) => description.includes('____'),
+  { message: 'description에 빈칸(____)이 있어야 합니다.' },
+);
+
+export const multiSelectQuizSchema = createMultiSelectQuizSchema(strictText)
+  .refine(hasDistinctOptions, { message: DISTINCT_OPTIONS_MESSAGE })
+  .refine(({ answers }) => new Set(answers).size === answers.length, {
+    message: 'answers에 같은 보기가 중복되었습니다.',
+  });
+
+/**
+ * 저장 가능한 퀴즈 (`Quiz` 테이블의 컬럼 길이와 형식별 조건)
+ */
+export const quizSchema = z.discriminatedUnion('type', [
+  multipleChoiceQuizSchema,
+  oxQuizSchema,
+  clozeQuizSchema,
+  multiSelectQuizSchema,
+]);
+
+export type QuizSchema = z.infer<typeof quizSchema>;
+
+/** `Quiz.answer`에 저장되는 정답 문자열 */
+export const formatQuizAnswer = (quiz: QuizSchema): string => {
+  switch (quiz.type) {
+    case 'ox':
+    case 'cloze':
+      return quiz.answer;
+    case 'multi-select':
+      return [...quiz.answers].sort((a, b) => a - b).join(',');
+    default:
+      return String(quiz.answer);
+  }
+};
+
+/**
+ * 학습자나 LLM의 답이 저장된 정답과 같은지 비교합니다.
+ * 공백/문장부호와 대소문자를 무시하고, 복수 선택은 보기 번호의 순서도 무시합니다.
+ */
+export const isSameQuizAnswer = (
+  type: QuizSchema['type'],
+  expected: string,
+  actual: string,
+) => {
+  const normalize = (value: string) =>
+    type === 'multi-select'
+      ? [...normalizeQuizText(value)].sort().join('')
+      : normalizeQuizText(value);
+
+  return normalize(expected) === normalize(actual);
+};
+
+export const createQuizArraySchema = <T extends z.ZodType>(
+  schema: T,
+  count: number,
+) =>
+  z.object({
+    quizzes: z.array(schema).length(count),
+  });
+
+export const quizReviewSchema = z.object({
+  reviews: z.array(
+    z.object({
+      index: z.int().nonnegative(),
+      answerable: z
+        .boolean()
+        .describe('whether the question can be answered from the content'),
+      answer: z
+        .string()
+        .nullable()
+        .describe('the correct answer according to the content'),
+      reason: z.string(),
+    }),
+  ),
 });
+
+export const searchResultSchema = z.object({
+  title: z.string(),
+  url: z.url(),
+  description: z.string().default(''),
+});
+
+export const searchFixtureSchema = z.record(
+  z.string(),
+  z.array(searchResultSchema),
+);
+
+/** 재생성 job 데이터 (큐에 들어온 데이터는 외부 입력이므로 실행 시 검증) */
+export const regenerateQueueDataSchema = z.object({
+  articleId: z.string().regex(/^\d+$/).optional(),
+  keywordId: z.string().regex(/^\d+$/).optional(),
+  articleType: z
+    .enum(['concept', 'example', 'related-words', 'importance', 'exploration'])
+    .optional(),
+  feedback: z.string().optional(),
+}) satisfies z.ZodType<RegenerateQueueData>;
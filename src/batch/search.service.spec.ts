@@ -0,0 +1,147 @@
+import { ConfigService } from '@nestjs/config';
+import { EnvSchema } from 'src/config/validate-env';
+import { ERROR_MESSAGE } from 'src/constants/error-message';
+import { BraveSearchService } from './brave-search.service';
+import { SearchService } from './search.service';
+import { SearxngSearchService } from './searxng-search.service';
+import { SnapshotService } from './snapshot.service';
+import { StaticSearchService } from './static-search.service';
+import {
+  SearchProvider,
+  SearchProviderName,
+  SearchResult,
+} from './types/types';
+
+const createResults = (name: string): SearchResult[] => [
+  { title: name, url: `https://${name}.example.com`, description: '' },
+];
+
+const createProvider = (
+  name: SearchProviderName,
+  search: () => Promise<SearchResult[]>,
+): SearchProvider & { searchByKeyword: jest.Mock } => ({
+  name,
+  searchByKeyword: jest.fn(search),
+});
+
+describe('SearchService', () => {
+  let brave: ReturnType<typeof createProvider>;
+  let searxng: ReturnType<typeof createProvider>;
+  let staticProvider: ReturnType<typeof createProvider>;
+  let snapshotService: {
+    isReplaying: boolean;
+    isRecording: boolean;
+    loadSearchResults: jest.Mock;
+    saveSearchResults: jest.Mock;
+  };
+
+  const createService = (
+    providers: SearchProviderName[] = ['brave', 'searxng', 'static'],
+  ) =>
+    new SearchService(
+      {
+        get: () => providers,
+      } as unknown as ConfigService<EnvSchema, true>,
+      brave as unknown as BraveSearchService,
+      searxng as unknown as SearxngSearchService,
+      staticProvider as unknown as StaticSearchService,
+      snapshotService as unknown as SnapshotService,
+    );
+
+  beforeEach(() => {
+    brave = createProvider('brave', () =>
+      Promise.resolve(createResults('brave')),
+    );
+    searxng = createProvider('searxng', () =>
+      Promise.resolve(createResults('searxng')),
+    );
+    staticProvider = createProvider('static', () =>
+      Promise.resolve(createResults('static')),
+    );
+    snapshotService = {
+      isReplaying: false,
+      isRecording: false,
+      loadSearchResults: jest.fn(),
+      saveSearchResults: jest.fn(),
+    };
+  });
+
+  it('첫 번째 provider의 결과가 있으면 다음 provider를 호출하지 않는다', async () => {
+    await expect(createService().searchByKeyword('금리')).resolves.toEqual(
+      createResults('brave'),
+    );
+    expect(searxng.searchByKeyword).not.toHaveBeenCalled();
+    expect(staticProvider.searchByKeyword).not.toHaveBeenCalled();
+  });
+
+  it('Brave가 실패하면 SearXNG 결과를 반환한다', async () => {
+    brave.searchByKeyword.mockRejectedValue(
+      new Error(ERROR_MESSAGE.BRAVE_SEARCH_DAILY_QUOTA_EXCEEDED),
+    );
+
+    await expect(createService().searchByKeyword('금리')).resolves.toEqual(
+      createResults('searxng'),
+    );
+    expect(staticProvider.searchByKeyword).not.toHaveBeenCalled();
+  });
+
+  it('Brave 결과가 없고 SearXNG가 실패하면 static 결과를 반환한다', async () => {
+    brave.searchByKeyword.mockResolvedValue([]);
+    searxng.searchByKeyword.mockRejectedValue(
+      new Error(ERROR_MESSAGE.SEARXNG_REQUEST_FAILED),
+    );
+
+    await expect(createService().searchByKeyword('금리')).resolves.toEqual(
+      createResults('static'),
+    );
+  });
+
+  it('모든 provider가 실패하면 provider별 실패 사유와 함께 예외를 던진다', async () => {
+    brave.searchByKeyword.mockResolvedValue([]);
+    searxng.searchByKeyword.mockRejectedValue(
+      new Error(ERROR_MESSAGE.SEARXNG_REQUEST_FAILED),
+    );
+
+    await expect(
+      createService(['brave', 'searxng']).searchByKeyword('금리'),
+    ).rejects.toThrow(
+      `${ERROR_MESSAGE.ALL_SEARCH_PROVIDERS_FAILED} (brave: no results, searxng: ${ERROR_MESSAGE.SEARXNG_REQUEST_FAILED})`,
+    );
+    expect(staticProvider.searchByKeyword).not.toHaveBeenCalled();
+  });
+
+  it('SEARCH_PROVIDERS에 설정된 순서대로 호출한다', async () => {
+    await expect(
+      createService(['static', 'brave']).searchByKeyword('금리'),
+    ).resolves.toEqual(createResults('static'));
+    expect(brave.searchByKeyword).not.toHaveBeenCalled();
+  });
+
+  it('record 모드에서는 반환할 검색 결과를 저장한다', async () => {
+    snapshotService.isRecording = true;
+
+    await createService().searchByKeyword('금리');
+
+    expect(snapshotService.saveSearchResults).toHaveBeenCalledWith(
+      '금리',
+      createResults('brave'),
+    );
+  });
+
+  it('replay 모드에서는 provider를 호출하지 않고 저장된 검색 결과를 반환한다', async () => {
+    snapshotService.isReplaying = true;
+    snapshotService.loadSearchResults.mockResolvedValue(
+      createResults('stored'),
+    );
+
+    await expect(createService().searchByKeyword('금리')).resolves.toEqual(
+      createResults('stored'),
+    );
+    expect(brave.searchByKeyword).not.toHaveBeenCalled();
+
+    snapshotService.loadSearchResults.mockResolvedValue(null);
+    await expect(createService().searchByKeyword('금리')).rejects.toThrow(
+      ERROR_MESSAGE.SNAPSHOT_NOT_FOUND,
+    );
+  });
+});
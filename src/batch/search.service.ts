@@ -0,0 +1,94 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ERROR_MESSAGE } from 'src/constants/error-message';
+import { EnvSchema } from '../config/validate-env';
+import { BraveSearchService } from './brave-search.service';
+import { SearxngSearchService } from './searxng-search.service';
+import { SnapshotService } from './snapshot.service';
+import { StaticSearchService } from './static-search.service';
+import {
+  SearchProvider,
+  SearchProviderName,
+  SearchResult,
+} from './types/types';
+
+/**
+ * `SEARCH_PROVIDERS`에 설정된 순서대로 검색 Provider를 호출하는 서비스입니다.
+ *
+ * 한 Provider가 실패(할당량 초과, 장애 등)하거나 결과가 없으면 다음 Provider로 넘어가며,
+ * 모든 Provider가 실패한 경우에만 예외를 던집니다.
+ * replay 모드에서는 Provider를 호출하지 않고 저장된 검색 결과를 반환합니다.
+ */
+@Injectable()
+export class SearchService {
+  private readonly logger = new Logger(SearchService.name);
+
+  private readonly providers: SearchProvider[];
+
+  constructor(
+    configService: ConfigService<EnvSchema, true>,
+    braveSearchService: BraveSearchService,
+    searxngSearchService: SearxngSearchService,
+    staticSearchService: StaticSearchService,
+    private readonly snapshotService: SnapshotService,
+  ) {
+    const providerMap: Record<SearchProviderName, SearchProvider> = {
+      brave: braveSearchService,
+      searxng: searxngSearchService,
+      static: staticSearchService,
+    };
+
+    this.providers = configService
+      .get<SearchProviderName[]>('SEARCH_PROVIDERS')
+      .map((name) => providerMap[name]);
+  }
+
+  async searchByKeyword(query: string): Promise<SearchResult[]> {
+    if (this.snapshotService.isReplaying) {
+      const results = await this.snapshotService.loadSearchResults(query);
+
+      if (!results) {
+        throw new Error(`${ERROR_MESSAGE.SNAPSHOT_NOT_FOUND} (${query})`);
+      }
+
+      this.logger.log(`Replaying ${results.length} stored search results`);
+      return results;
+    }
+
+    const failures: string[] = [];
+
+    for (const provider of this.providers) {
+      let results: SearchResult[];
+
+      try {
+        results = await provider.searchByKeyword(query);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`${provider.name} search provider failed: ${message}`);
+        failures.push(`${provider.name}: ${message}`);
+        continue;
+      }
+
+      if (results.length === 0) {
+        this.logger.warn(`No results from ${provider.name} search provider`);
+        failures.push(`${provider.name}: no results`);
+        continue;
+      }
+
+      this.logger.log(
+        `Found ${results.length} results from ${provider.name} search provider`,
+      );
+
+      if (this.snapshotService.isRecording) {
+        await this.snapshotService.saveSearchResults(query, results);
+      }
+
+      return results;
+    }
+
+    // 할당량 초과 등 각 provider의 실패 사유를 job 실패 메시지에 남김
+    throw new Error(
+      `${ERROR_MESSAGE.ALL_SEARCH_PROVIDERS_FAILED} (${failures.join(', ')})`,
+    );
+  }
+}
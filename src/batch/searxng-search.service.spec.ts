@@ -0,0 +1,38 @@
+import { ConfigService } from '@nestjs/config';
+import { EnvSchema } from 'src/config/validate-env';
+import { httpRequest } from 'src/utils/http-client';
+import { SearxngSearchService } from './searxng-search.service';
+
+jest.mock('src/utils/http-client', () => ({ httpRequest: jest.fn() }));
+
+const mockedHttpRequest = jest.mocked(httpRequest);
+
+describe('SearxngSearchService', () => {
+  const search = async (baseUrl: string) => {
+    const service = new SearxngSearchService({
+      get: () => baseUrl,
+    } as unknown as ConfigService<EnvSchema, true>);
+
+    await service.searchByKeyword('기준금리');
+
+    return new URL(mockedHttpRequest.mock.calls[0][0]);
+  };
+
+  beforeEach(() => {
+    mockedHttpRequest.mockReset();
+    mockedHttpRequest.mockResolvedValue(Response.json({ results: [] }));
+  });
+
+  it.each([
+    ['https://search.example.com', '/search'],
+    ['https://search.example.com/', '/search'],
+    ['https://example.com/searxng', '/searxng/search'],
+    ['https://example.com/searxng/', '/searxng/search'],
+  ])('base URL %s의 경로를 유지해 %s로 요청한다', async (baseUrl, pathname) => {
+    const requestUrl = await search(baseUrl);
+
+    expect(requestUrl.pathname).toBe(pathname);
+    expect(requestUrl.searchParams.get('q')).toBe('기준금리');
+    expect(requestUrl.searchParams.get('format')).toBe('json');
+  });
+});
@@ -0,0 +1,57 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ERROR_MESSAGE } from 'src/constants/error-message';
+import { httpRequest } from 'src/utils/http-client';
+import { EnvSchema } from '../config/validate-env';
+import { SearchProvider, SearchResult } from './types/types';
+
+type SearxngResult = {
+  title: string;
+  url: string;
+  content?: string;
+};
+
+/**
+ * SearXNG 호환 검색 API(`/search?format=json`)를 사용하는 검색 Provider입니다.
+ */
+@Injectable()
+export class SearxngSearchService implements SearchProvider {
+  readonly name = 'searxng';
+
+  private readonly logger = new Logger(SearxngSearchService.name);
+
+  constructor(private readonly configService: ConfigService<EnvSchema, true>) {}
+
+  async searchByKeyword(keyword: string): Promise<SearchResult[]> {
+    // 경로 prefix(`https://host/searxng`)가 있는 base URL도 유지되도록 상대 경로로 결합
+    const baseUrl = this.configService.get<string>('SEARXNG_BASE_URL');
+    const requestUrl = new URL(
+      'search',
+      baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`,
+    );
+
+    requestUrl.searchParams.set('q', keyword);
+    requestUrl.searchParams.set('format', 'json');
+    requestUrl.searchParams.set('language', 'ko-KR');
+
+    // SearXNG는 내부망에 배포되는 경우가 많으므로 사설 주소 차단을 적용하지 않음
+    const response = await httpRequest(requestUrl, {
+      blockPrivateNetwork: false,
+    });
+
+    if (!response.ok) {
+      this.logger.error(`SearXNG request failed: ${response.status}`);
+      throw new Error(ERROR_MESSAGE.SEARXNG_REQUEST_FAILED);
+    }
+
+    const { results } = (await response.json()) as {
+      results: SearxngResult[];
+    };
+
+    return results.map(({ title, url, content }) => ({
+      title,
+      url,
+      description: content ?? '',
+    }));
+  }
+}
@@ -0,0 +1,76 @@
+import { ConfigService } from '@nestjs/config';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EnvSchema } from 'src/config/validate-env';
+import { SnapshotService } from './snapshot.service';
+import { SnapshotMode } from './types/types';
+
+const createService = (mode: SnapshotMode, rootDir: string) =>
+  new SnapshotService({
+    get: (key: string) => (key === 'SNAPSHOT_MODE' ? mode : rootDir),
+  } as unknown as ConfigService<EnvSchema, true>);
+
+const CRAWL = {
+  url: 'https://example.com/page',
+  finalUrl: 'https://example.com/page/',
+  status: 200,
+  contentType: 'text/html; charset=utf-8',
+  fetchedAt: '2025-01-01T00:00:00.000Z',
+};
+
+describe('SnapshotService', () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'snapshot-service-'));
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('record 모드로 저장한 크롤링 응답을 replay 모드에서 그대로 불러온다', async () => {
+    const recorder = createService('record', rootDir);
+    await recorder.saveCrawl(CRAWL, Buffer.from('<html>본문</html>'));
+
+    const replayer = createService('replay', rootDir);
+    const loaded = await replayer.loadCrawl(CRAWL.url);
+
+    expect(recorder.isRecording).toBe(true);
+    expect(replayer.isReplaying).toBe(true);
+    expect(loaded?.snapshot).toMatchObject(CRAWL);
+    expect(loaded && Buffer.from(loaded.body).toString()).toBe(
+      '<html>본문</html>',
+    );
+  });
+
+  it('URL별 메타데이터는 가장 최근에 저장한 본문을 가리킨다', async () => {
+    const service = createService('record', rootDir);
+    await service.saveCrawl(CRAWL, Buffer.from('old'));
+    await service.saveCrawl(CRAWL, Buffer.from('new'));
+
+    const loaded = await service.loadCrawl(CRAWL.url);
+
+    expect(loaded && Buffer.from(loaded.body).toString()).toBe('new');
+  });
+
+  it('검색 결과는 쿼리의 앞뒤 공백과 대소문자를 무시하고 불러온다', async () => {
+    const service = createService('record', rootDir);
+    const results = [
+      { title: '기준금리', url: 'https://example.com', description: '설명' },
+    ];
+    await service.saveSearchResults('Base Rate ', results);
+
+    await expect(service.loadSearchResults('base rate')).resolves.toEqual(
+      results,
+    );
+  });
+
+  it('저장된 스냅샷이 없으면 null을 반환한다', async () => {
+    const service = createService('replay', rootDir);
+
+    await expect(service.loadCrawl(CRAWL.url)).resolves.toBeNull();
+    await expect(service.loadSearchResults('없는 쿼리')).resolves.toBeNull();
+  });
+});
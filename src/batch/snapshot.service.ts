@@ -0,0 +1,107 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { EnvSchema } from '../config/validate-env';
+import { FileSnapshotStore } from './stores/file-snapshot-store';
+import {
+  CrawlSnapshot,
+  SearchResult,
+  SnapshotMode,
+  SnapshotStore,
+} from './types/types';
+
+const sha256 = (data: string | Uint8Array) =>
+  createHash('sha256').update(data).digest('hex');
+
+/**
+ * 크롤링 응답과 검색 결과를 스냅샷으로 저장하고, 재현(replay) 시 불러오는 서비스입니다.
+ *
+ * @remarks
+ * - `SNAPSHOT_MODE=record`: 크롤링/검색 결과를 저장합니다.
+ * - `SNAPSHOT_MODE=replay`: 네트워크 대신 저장된 스냅샷만 사용합니다.
+ * - 응답 본문은 sha256 해시를 키로 저장(content-addressed)하므로 같은 본문은 한 번만 저장됩니다.
+ *   URL별 메타데이터는 가장 최근에 저장한 본문의 해시를 가리킵니다.
+ *
+ * 저장소 구조:
+ * - `blobs/{hash[0:2]}/{hash}`: 응답 본문
+ * - `crawls/{sha256(url)}.json`: {@link CrawlSnapshot}
+ * - `searches/{sha256(query)}.json`: 검색 결과
+ */
+@Injectable()
+export class SnapshotService {
+  readonly mode: SnapshotMode;
+
+  private readonly store: SnapshotStore;
+
+  constructor(configService: ConfigService<EnvSchema, true>) {
+    this.mode = configService.get('SNAPSHOT_MODE', { infer: true });
+    this.store = new FileSnapshotStore(
+      configService.get('SNAPSHOT_DIR', { infer: true }),
+    );
+  }
+
+  get isRecording() {
+    return this.mode === 'record';
+  }
+
+  get isReplaying() {
+    return this.mode === 'replay';
+  }
+
+  async saveCrawl(
+    snapshot: Omit<CrawlSnapshot, 'bodyHash'>,
+    body: Uint8Array,
+  ): Promise<void> {
+    const bodyHash = sha256(body);
+
+    await this.store.write(this.getBlobKey(bodyHash), body);
+    await this.writeJson(this.getCrawlKey(snapshot.url), {
+      ...snapshot,
+      bodyHash,
+    });
+  }
+
+  async loadCrawl(
+    url: string,
+  ): Promise<{ snapshot: CrawlSnapshot; body: Uint8Array } | null> {
+    const snapshot = await this.readJson<CrawlSnapshot>(this.getCrawlKey(url));
+    if (!snapshot) return null;
+
+    const body = await this.store.read(this.getBlobKey(snapshot.bodyHash));
+    if (!body) return null;
+
+    return { snapshot, body };
+  }
+
+  async saveSearchResults(
+    query: string,
+    results: SearchResult[],
+  ): Promise<void> {
+    await this.writeJson(this.getSearchKey(query), results);
+  }
+
+  async loadSearchResults(query: string): Promise<SearchResult[] | null> {
+    return this.readJson<SearchResult[]>(this.getSearchKey(query));
+  }
+
+  private getBlobKey(hash: string) {
+    return `blobs/${hash.slice(0, 2)}/${hash}`;
+  }
+
+  private getCrawlKey(url: string) {
+    return `crawls/${sha256(url)}.json`;
+  }
+
+  private getSearchKey(query: string) {
+    return `searches/${sha256(query.trim().toLowerCase())}.json`;
+  }
+
+  private async readJson<T>(key: string): Promise<T | null> {
+    const data = await this.store.read(key);
+    return data ? (JSON.parse(Buffer.from(data).toString('utf-8')) as T) : null;
+  }
+
+  private async writeJson(key: string, value: unknown): Promise<void> {
+    await this.store.write(key, Buffer.from(JSON.stringify(value, null, 2)));
+  }
+}
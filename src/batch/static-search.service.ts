@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFile } from 'fs/promises';
+import { ERROR_MESSAGE } from 'src/constants/error-message';
+import { EnvSchema } from '../config/validate-env';
+import { searchFixtureSchema } from './schemas/schemas';
+import { SearchProvider, SearchResult } from './types/types';
+
+/**
+ * 네트워크 없이 동작하도록 JSON fixture 파일에서 검색 결과를 반환하는 검색 Provider입니다.
+ *
+ * fixture는 쿼리를 키로, 검색 결과 배열을 값으로 가지며
+ * `*` 키는 일치하는 쿼리가 없을 때 사용됩니다.
+ */
+@Injectable()
+export class StaticSearchService implements SearchProvider {
+  readonly name = 'static';
+
+  constructor(private readonly configService: ConfigService<EnvSchema, true>) {}
+
+  async searchByKeyword(keyword: string): Promise<SearchResult[]> {
+    const fixturePath = this.configService.get<string>('SEARCH_FIXTURE_PATH');
+    const fixture = searchFixtureSchema.parse(
+      JSON.parse(await readFile(fixturePath, 'utf-8')),
+    );
+
+    const results = fixture[keyword] ?? fixture['*'];
+
+    if (!results) {
+      throw new Error(ERROR_MESSAGE.SEARCH_FIXTURE_NOT_FOUND);
+    }
+
+    return results;
+  }
+}
@@ -0,0 +1,42 @@
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileSnapshotStore } from './file-snapshot-store';
+
+describe('FileSnapshotStore', () => {
+  let rootDir: string;
+  let store: FileSnapshotStore;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'snapshot-store-'));
+    store = new FileSnapshotStore(rootDir);
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('저장한 데이터를 하위 디렉터리를 만들어 저장하고 다시 읽는다', async () => {
+    await store.write('crawls/a/b.json', Buffer.from('data'));
+
+    const data = await store.read('crawls/a/b.json');
+
+    expect(data && Buffer.from(data).toString()).toBe('data');
+  });
+
+  it('없는 키는 null을 반환한다', async () => {
+    await expect(store.read('crawls/missing.json')).resolves.toBeNull();
+  });
+
+  it('같은 키를 동시에 써도 온전한 데이터 하나만 남고 임시 파일이 남지 않는다', async () => {
+    const values = Array.from({ length: 20 }, (_, index) =>
+      Buffer.from(String(index).repeat(10_000)),
+    );
+
+    await Promise.all(values.map((value) => store.write('same.json', value)));
+
+    const data = await store.read('same.json');
+    expect(values.some((value) => data && value.equals(data))).toBe(true);
+    expect(await readdir(rootDir)).toEqual(['same.json']);
+  });
+});
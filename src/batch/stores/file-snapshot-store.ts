@@ -0,0 +1,31 @@
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { SnapshotStore } from '../types/types';
+
+/**
+ * 로컬 디스크에 스냅샷을 저장하는 저장소입니다.
+ * 쓰기 도중 중단되어도 깨진 파일이 남지 않도록 임시 파일에 쓴 뒤 이름을 바꿉니다.
+ */
+export class FileSnapshotStore implements SnapshotStore {
+  constructor(private readonly rootDir: string) {}
+
+  async read(key: string): Promise<Uint8Array | null> {
+    try {
+      return await readFile(join(this.rootDir, key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async write(key: string, data: Uint8Array): Promise<void> {
+    const path = join(this.rootDir, key);
+    // 같은 키를 동시에 쓰더라도 임시 파일이 겹치지 않도록 쓰기마다 고유한 이름 사용
+    const tempPath = `${path}.${randomUUID()}.tmp`;
+
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(tempPath, data);
+    await rename(tempPath, path);
+  }
+}
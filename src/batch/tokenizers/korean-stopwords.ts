@@ -0,0 +1,80 @@
+/**
+ * BM25 랭킹에서 제외할 한국어 불용어 목록입니다.
+ *
+ * 조사/어미가 분리된 이후의 토큰을 기준으로 작성되었으며,
+ * 문서 간 변별력이 거의 없는 접속사, 지시어, 의존명사, 기능성 용언을 포함합니다.
+ */
+export const KOREAN_STOPWORDS: ReadonlySet<string> = new Set([
+  // 접속사/부사
+  '그리고',
+  '그러나',
+  '하지만',
+  '그런데',
+  '그래서',
+  '따라서',
+  '그러므로',
+  '또한',
+  '또는',
+  '혹은',
+  '및',
+  '즉',
+  '또',
+  '더',
+  '매우',
+  '가장',
+  '다시',
+  '이미',
+  '바로',
+  '특히',
+  '다만',
+  '결국',
+  // 지시어/대명사
+  '이',
+  '그',
+  '저',
+  '이것',
+  '그것',
+  '저것',
+  '이런',
+  '그런',
+  '저런',
+  '이러한',
+  '그러한',
+  '여기',
+  '거기',
+  '우리',
+  // 의존명사
+  '것',
+  '수',
+  '등',
+  '때',
+  '중',
+  '점',
+  '곳',
+  '데',
+  '바',
+  '뿐',
+  '측',
+  // 기능성 용언/관형 표현
+  '있다',
+  '없다',
+  '하다',
+  '되다',
+  '이다',
+  '아니다',
+  '있는',
+  '없는',
+  '하는',
+  '되는',
+  '같은',
+  '위해',
+  '위한',
+  '대한',
+  '대해',
+  '통해',
+  '따른',
+  '따라',
+  '관련',
+  '때문',
+  '경우',
+]);
@@ -0,0 +1,49 @@
+import { KoreanTokenizer } from './korean-tokenizer';
+
+describe('KoreanTokenizer', () => {
+  const tokenizer = new KoreanTokenizer();
+
+  it('어절 끝의 조사를 분리한다', () => {
+    expect(
+      tokenizer.tokenize('한국은행이 기준금리를 대출에서부터 가계와는'),
+    ).toEqual(['한국은행', '기준금리', '대출', '가계']);
+  });
+
+  it('어절 끝의 어미를 가장 긴 것부터 분리한다', () => {
+    expect(
+      tokenizer.tokenize('인상했습니다 발표하였다 시작했다 결정된다'),
+    ).toEqual(['인상', '발표', '시작', '결정']);
+  });
+
+  it('분리 후 어간이 두 글자보다 짧아지면 분리하지 않는다', () => {
+    expect(tokenizer.tokenize('결과와 효과')).toEqual(['결과', '효과']);
+  });
+
+  it('불용어는 조사를 분리한 뒤 제외한다', () => {
+    expect(tokenizer.tokenize('그리고 또한 이것은 금리를 더 올렸다')).toEqual([
+      '금리',
+      '올렸다',
+    ]);
+    expect(
+      new KoreanTokenizer({ stopwords: new Set(['금리']) }).tokenize(
+        '금리가 오른다',
+      ),
+    ).toEqual(['오른다']);
+  });
+
+  it('영문은 소문자로 바꾸고 소수점이 있는 숫자는 유지한다', () => {
+    expect(tokenizer.tokenize('ECB Rate, 3.5 인상. (2025)')).toEqual([
+      'ecb',
+      'rate',
+      '3.5',
+      '인상',
+      '2025',
+    ]);
+  });
+
+  it('ngram 모드는 어간을 글자 단위 n-gram으로 나눈다', () => {
+    expect(
+      new KoreanTokenizer({ mode: 'ngram' }).tokenize('기준금리인상을 ECB 3.5'),
+    ).toEqual(['기준', '준금', '금리', '리인', '인상', 'ecb', '3.5']);
+  });
+});
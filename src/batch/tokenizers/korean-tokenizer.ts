@@ -0,0 +1,177 @@
+import { KoreanTokenizerOptions, Tokenizer } from '../types/types';
+import { KOREAN_STOPWORDS } from './korean-stopwords';
+
+/**
+ * 어절 끝에서 분리할 조사/어미 목록입니다.
+ * 가장 긴 접미사부터 매칭되도록 길이 내림차순으로 정렬하여 사용합니다.
+ */
+const KOREAN_SUFFIXES = [
+  // 조사
+  '에서부터',
+  '으로부터',
+  '에게서',
+  '으로써',
+  '으로서',
+  '으로는',
+  '에서는',
+  '에서도',
+  '에서의',
+  '에게는',
+  '이라는',
+  '이라고',
+  '까지는',
+  '부터는',
+  '에서',
+  '에게',
+  '한테',
+  '께서',
+  '으로',
+  '로써',
+  '로서',
+  '로는',
+  '에는',
+  '에도',
+  '에의',
+  '와는',
+  '과는',
+  '이나',
+  '이란',
+  '라는',
+  '라고',
+  '까지',
+  '부터',
+  '보다',
+  '처럼',
+  '만큼',
+  '마다',
+  '조차',
+  '마저',
+  '밖에',
+  '이며',
+  '이고',
+  '은',
+  '는',
+  '이',
+  '가',
+  '을',
+  '를',
+  '의',
+  '에',
+  '로',
+  '와',
+  '과',
+  '도',
+  '만',
+  '나',
+  '란',
+  // 어미
+  '했습니다',
+  '됐습니다',
+  '입니다',
+  '습니다',
+  '합니다',
+  '됩니다',
+  '했는데',
+  '하였다',
+  '되었다',
+  '이었다',
+  '했다',
+  '됐다',
+  '였다',
+  '한다',
+  '된다',
+  '이다',
+  '하는',
+  '되는',
+  '하고',
+  '하며',
+  '하여',
+  '해서',
+  '하면',
+  '되어',
+  '되면',
+  '으며',
+  '한',
+  '된',
+  '할',
+  '될',
+  '함',
+  '됨',
+].sort((a, b) => b.length - a.length);
+
+const HANGUL_REGEX = /[가-힣]/;
+
+/** 접미사 분리 후 남아야 하는 최소 어간 길이 */
+const MIN_STEM_LENGTH = 2;
+
+/**
+ * 한국어 텍스트를 BM25 랭킹에 적합한 토큰으로 분리하는 Tokenizer 구현체입니다.
+ *
+ * @remarks
+ * - 한글, 영문, 숫자(소수점 포함)는 유지하고 그 외 문자는 공백으로 치환합니다.
+ * - `morpheme` 모드: 어절 끝의 조사/어미를 분리하여 어간만 토큰으로 사용합니다.
+ * - `ngram` 모드: 조사/어미를 분리한 어간을 글자 단위 n-gram으로 분해합니다.
+ *   띄어쓰기가 일정하지 않은 복합명사(예: "기준금리인상")에 유리합니다.
+ *
+ * 형태소 분석기가 아닌 접미사 규칙 기반이므로, 분리 후 어간이 두 글자 이상 남는 경우에만
+ * 조사/어미를 분리하여 "결과", "효과"와 같은 명사가 잘못 잘리는 것을 줄입니다.
+ */
+export class KoreanTokenizer implements Tokenizer {
+  private readonly options: KoreanTokenizerOptions;
+
+  constructor(options: Partial<KoreanTokenizerOptions> = {}) {
+    this.options = {
+      mode: options.mode ?? 'morpheme',
+      ngramSize: options.ngramSize ?? 2,
+      stopwords: options.stopwords ?? KOREAN_STOPWORDS,
+    };
+  }
+
+  tokenize(text: string): string[] {
+    const words = text
+      .normalize('NFC')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s.]/gu, ' ')
+      .replace(/(?<!\d)\.|\.(?!\d)/g, ' ')
+      .split(/\s+/)
+      .filter((word) => word.length > 0);
+
+    const stems = words
+      .map((word) => this.stripSuffix(word))
+      .filter((stem) => stem.length > 0 && !this.options.stopwords.has(stem));
+
+    if (this.options.mode === 'ngram') {
+      return stems.flatMap((stem) => this.toNgrams(stem));
+    }
+
+    return stems;
+  }
+
+  private stripSuffix(word: string): string {
+    if (!HANGUL_REGEX.test(word.at(-1) ?? '')) return word;
+
+    for (const suffix of KOREAN_SUFFIXES) {
+      if (!word.endsWith(suffix)) continue;
+
+      const stem = word.slice(0, -suffix.length);
+      if (stem.length >= MIN_STEM_LENGTH) {
+        return stem;
+      }
+    }
+
+    return word;
+  }
+
+  private toNgrams(stem: string): string[] {
+    const n = this.options.ngramSize;
+
+    if (!HANGUL_REGEX.test(stem) || stem.length <= n) return [stem];
+
+    const ngrams: string[] = [];
+    for (let i = 0; i <= stem.length - n; i++) {
+      ngrams.push(stem.slice(i, i + n));
+    }
+
+    return ngrams;
+  }
+}
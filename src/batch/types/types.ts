@@ -1,12 +1,75 @@
+import { QuizDraftSchema, QuizSchema } from '../schemas/schemas';
+
 export type SearchResult = {
   title: string;
   url: string;
   description: string;
 };
 
-export type CrawlResult = {
+export type SearchProviderName = 'brave' | 'searxng' | 'static';
+
+export type SearchProvider = {
+  readonly name: SearchProviderName;
+  searchByKeyword: (query: string) => Promise<SearchResult[]>;
+};
+
+export type CrawlMetadata = {
   title: string;
-  texts: string[];
+  siteName: string | null;
+  author: string | null;
+  publishedAt: Date | null;
+};
+
+export type CrawledText = {
+  text: string;
+  page: number | null;
+};
+
+export type ExtractedContent = CrawlMetadata & {
+  texts: CrawledText[];
+};
+
+export type ContentHandler = {
+  /** 응답 본문 최대 크기 (bytes) */
+  maxBytes: number;
+  extract: (
+    body: Uint8Array,
+    charset: string | null,
+    title: string,
+  ) => Promise<ExtractedContent>;
+};
+
+export type CrawlResult = ExtractedContent & {
+  url: string;
+  crawledAt: Date;
+};
+
+export type SnapshotMode = 'off' | 'record' | 'replay';
+
+/**
+ * 스냅샷 저장소 (키는 `/`로 구분된 상대 경로)
+ */
+export type SnapshotStore = {
+  read: (key: string) => Promise<Uint8Array | null>;
+  write: (key: string, data: Uint8Array) => Promise<void>;
+};
+
+/**
+ * 크롤링한 응답의 메타데이터. 본문은 `bodyHash`(sha256) 키로 별도 저장됩니다.
+ */
+export type CrawlSnapshot = {
+  url: string;
+  finalUrl: string;
+  status: number;
+  contentType: string | null;
+  fetchedAt: string;
+  bodyHash: string;
+};
+
+export type CrawlSchedulerConfig = {
+  maxConcurrency: number;
+  perHostConcurrency: number;
+  defaultDelayMs: number;
 };
 
 export type BM25Config = {
@@ -14,19 +77,222 @@ export type BM25Config = {
   b: number;
 };
 
+export type Tokenizer = {
+  tokenize: (text: string) => string[];
+};
+
+export type KoreanTokenizerMode = 'morpheme' | 'ngram';
+
+export type KoreanTokenizerOptions = {
+  mode: KoreanTokenizerMode;
+  ngramSize: number;
+  stopwords: ReadonlySet<string>;
+};
+
 export type CrawledDocument = {
+  id: string;
+  url: string;
   title: string;
   content: string;
+  page: number | null;
+  crawledAt: Date;
+};
+
+export type BM25SearchResult = {
+  document: CrawledDocument;
+  score: number;
+};
+
+export type EmbeddingProvider = {
+  embed: (texts: string[]) => Promise<number[][]>;
+};
+
+export type HybridRetrievalConfig = {
+  rrfK: number;
+  denseWeight: number;
+  bm25Weight: number;
+};
+
+export type RankedDocument = {
+  document: CrawledDocument;
+  score: number;
+  bm25Score: number;
+};
+
+export type HybridSearchResult = RankedDocument & {
+  denseScore: number;
+};
+
+export type ReferenceChunk = {
+  refId: string;
+  document: CrawledDocument;
+  bm25Score: number;
+};
+
+export type DiversityConfig = {
+  shingleSize: number;
+  numHashes: number;
+  nearDuplicateThreshold: number;
+  mmrLambda: number;
+  maxPerDomain: number;
+};
+
+export type ClaimVerdict = 'supported' | 'unsupported' | 'contradicted';
+
+/** LLM judge가 반환한 문장별 판정 (`index`는 판정 대상 문장 배열의 인덱스) */
+export type ClaimJudgement = {
+  index: number;
+  verdict: ClaimVerdict;
+  refIds: string[];
+  reason: string;
+};
+
+export type ClaimJudge = {
+  judge: (
+    claims: string[],
+    references: ReferenceChunk[],
+  ) => Promise<ClaimJudgement[]>;
+};
+
+export type FactCheckConfig = {
+  minClaimLength: number;
+  lexicalSupportThreshold: number;
+  maxUnsupportedRatio: number;
+};
+
+export type ClaimCheck = {
+  claim: string;
+  verdict: ClaimVerdict;
+  /** 가장 많이 겹치는 참고 자료에 포함된 문장 토큰의 비율 (0~1) */
+  lexicalScore: number;
+  refIds: string[];
+  reason: string | null;
+};
+
+export type FactCheckResult = {
+  claims: ClaimCheck[];
+  unsupportedRatio: number;
+  flagged: boolean;
+};
+
+export type QuizType = QuizSchema['type'];
+
+export type QuizDifficulty = QuizSchema['difficulty'];
+
+export type QuizBloomLevel = QuizSchema['bloomLevel'];
+
+/** 학습자 풀이 기록으로 계산한 퀴즈 난이도 */
+export type QuizCalibration = {
+  attemptCount: number;
+  /** 실제 정답률 (0~1) */
+  correctRate: number;
+  /** 형식별로 찍어서 맞힐 확률을 보정한 정답률 (0~1) */
+  adjustedCorrectRate: number;
+  /** 보정된 정답률로 계산하며, 풀이 수가 `QUIZ_CALIBRATION_MIN_ATTEMPTS`보다 적으면 null */
+  empiricalDifficulty: QuizDifficulty | null;
+};
+
+/**
+ * LLM이 아티클을 근거로 퀴즈를 풀어 본 결과 (`index`는 검토 대상 퀴즈 배열의 인덱스)
+ * - `answer`는 `Quiz.answer`에 저장되는 형식과 같습니다. (예: `2`, `O`, `기준금리`, `1,3`)
+ */
+export type QuizReview = {
+  index: number;
+  answerable: boolean;
+  answer: string | null;
+  reason: string;
+};
+
+export type QuizReviewer = {
+  review: (content: string, quizzes: QuizSchema[]) => Promise<QuizReview[]>;
+};
+
+export type InvalidQuiz = {
+  quiz: QuizDraftSchema;
+  issues: string[];
+};
+
+export type QuizValidationResult = {
+  valid: QuizSchema[];
+  invalid: InvalidQuiz[];
 };
 
 export type BatchQueueData = {
   keywordId: string;
 };
 
+/**
+ * 재생성 job 데이터
+ * - `articleId` 또는 `keywordId` + `articleType`으로 대상 아티클을 지정합니다.
+ * - `feedback`은 편집자 피드백으로, 프롬프트에 추가됩니다.
+ */
+export type RegenerateQueueData = {
+  articleId?: string;
+  keywordId?: string;
+  articleType?: ArticleType;
+  feedback?: string;
+};
+
 export type BatchQueueReturnType = {
   success: boolean;
 };
 
+export type ArticleType =
+  | 'concept'
+  | 'example'
+  | 'related-words'
+  | 'importance'
+  | 'exploration';
+
+export type ArticlePrompt = {
+  type: ArticleType;
+  prompt: string;
+};
+
+/**
+ * 파이프라인 단계 이름
+ * - 아티클 단계는 아티클 종류별로, 퀴즈 단계는 아티클 ID별로 나뉩니다.
+ */
+export type PipelineStepName =
+  | 'search'
+  | 'rank'
+  | `article:${ArticleType}`
+  | `fact-check:${ArticleType}`
+  | `summary:${ArticleType}`
+  | `save-article:${ArticleType}`
+  | `quiz:${bigint}`
+  | `save-quiz:${bigint}`
+  | 'completed';
+
+export type BatchStage =
+  | 'search'
+  | 'crawl'
+  | 'rank'
+  | 'article'
+  | 'quiz'
+  | 'completed';
+
+export type ArticleProgress = {
+  index: number;
+  status: 'pending' | 'generating' | 'verifying' | 'summarizing' | 'saved';
+  /** 지금까지 생성된 본문 길이 */
+  characters: number;
+  articleId: string | null;
+};
+
+/** `job.updateProgress`로 전달되는 진행 상황 */
+export type BatchProgress = {
+  stage: BatchStage;
+  percent: number;
+  articles: ArticleProgress[];
+  quizzes: {
+    completed: number;
+    total: number;
+  };
+};
+
+export type ProgressReporter = (progress: BatchProgress) => Promise<void>;
+
 export type KeywordInfo = {
   name: string;
   description: string;
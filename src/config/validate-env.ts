@@ -1,14 +1,183 @@
+import { BATCH_OPTIONS } from 'src/constants/batch-options';
 import { ENV_KEYS } from 'src/constants/env-keys';
 import z from 'zod';
 
 export type EnvSchema = z.infer<typeof envSchema>;
 
-export const envSchema = z.object({
-  [ENV_KEYS.REDIS_HOST]: z.string().nonempty(),
-  [ENV_KEYS.REDIS_PORT]: z.string().nonempty(),
-  [ENV_KEYS.BRAVE_SEARCH_API_KEY]: z.string().nonempty(),
-  [ENV_KEYS.GOOGLE_GENERATIVE_AI_API_KEY]: z.string().nonempty(),
-});
+const modelProviderSchema = z.enum(['gemini', 'openai', 'grok']);
+
+const embeddingProviderSchema = modelProviderSchema.exclude(['grok']);
+
+const aiTaskSchema = z.enum(['article', 'summary', 'quiz', 'fact-check']);
+
+/** JSON 문자열 환경 변수를 파싱합니다. 값이 없으면 빈 객체로 간주합니다. */
+const jsonSchema = z
+  .string()
+  .optional()
+  .transform((value, ctx) => {
+    if (!value) return {};
+
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      ctx.addIssue({ code: 'custom', message: 'Invalid JSON' });
+      return z.NEVER;
+    }
+  });
+
+export const envSchema = z
+  .object({
+    [ENV_KEYS.REDIS_HOST]: z.string().nonempty(),
+    [ENV_KEYS.REDIS_PORT]: z.string().nonempty(),
+    [ENV_KEYS.SEARCH_PROVIDERS]: z
+      .string()
+      .default('brave')
+      .transform((value) => value.split(',').map((name) => name.trim()))
+      .pipe(z.array(z.enum(['brave', 'searxng', 'static'])).nonempty()),
+    [ENV_KEYS.BRAVE_SEARCH_API_KEY]: z.string().nonempty().optional(),
+    [ENV_KEYS.BRAVE_SEARCH_CACHE_TTL_SECONDS]: z.coerce
+      .number()
+      .int()
+      .positive()
+      .default(BATCH_OPTIONS.SEARCH_CACHE_TTL_SECONDS),
+    [ENV_KEYS.BRAVE_SEARCH_DAILY_QUOTA]: z.coerce
+      .number()
+      .int()
+      .positive()
+      .optional(),
+    [ENV_KEYS.BRAVE_SEARCH_MONTHLY_QUOTA]: z.coerce
+      .number()
+      .int()
+      .positive()
+      .optional(),
+    [ENV_KEYS.SEARXNG_BASE_URL]: z.url().optional(),
+    [ENV_KEYS.SEARCH_FIXTURE_PATH]: z.string().nonempty().optional(),
+    [ENV_KEYS.CRAWLER_USER_AGENT]: z
+      .string()
+      .nonempty()
+      .default(BATCH_OPTIONS.USER_AGENT),
+    [ENV_KEYS.SNAPSHOT_MODE]: z
+      .enum(['off', 'record', 'replay'])
+      .default('off'),
+    [ENV_KEYS.SNAPSHOT_DIR]: z
+      .string()
+      .nonempty()
+      .default(BATCH_OPTIONS.SNAPSHOT_DIR),
+    [ENV_KEYS.AI_PROVIDERS]: z
+      .string()
+      .default('gemini')
+      .transform((value) => value.split(',').map((name) => name.trim()))
+      .pipe(z.array(modelProviderSchema).nonempty()),
+    [ENV_KEYS.AI_TASK_PROVIDERS]: jsonSchema.pipe(
+      z.partialRecord(aiTaskSchema, z.array(modelProviderSchema).nonempty()),
+    ),
+    [ENV_KEYS.AI_MODELS]: jsonSchema.pipe(
+      z.partialRecord(
+        aiTaskSchema,
+        z.partialRecord(modelProviderSchema, z.string().nonempty()),
+      ),
+    ),
+    [ENV_KEYS.EMBEDDING_PROVIDER]: embeddingProviderSchema.default('gemini'),
+    [ENV_KEYS.AI_PRICES]: jsonSchema.pipe(
+      z.record(
+        z.string(),
+        z.object({
+          input: z.number().nonnegative(),
+          output: z.number().nonnegative(),
+        }),
+      ),
+    ),
+    [ENV_KEYS.AI_RATE_LIMITS]: jsonSchema.pipe(
+      z.record(
+        z.string(),
+        z.object({
+          rpm: z.number().int().positive().optional(),
+          tpm: z.number().int().positive().optional(),
+        }),
+      ),
+    ),
+    [ENV_KEYS.AI_JOB_BUDGET_USD]: z.coerce.number().positive().optional(),
+    [ENV_KEYS.AI_CACHE_TTL_SECONDS]: z.coerce
+      .number()
+      .int()
+      .positive()
+      .default(BATCH_OPTIONS.AI_CACHE_TTL_SECONDS),
+    [ENV_KEYS.QUIZ_FORMAT_MIX]: jsonSchema
+      .pipe(
+        z.partialRecord(
+          z.enum(['multiple-choice', 'ox', 'cloze', 'multi-select']),
+          z.number().int().nonnegative(),
+        ),
+      )
+      .transform((mix) => ({ ...BATCH_OPTIONS.QUIZ_FORMAT_MIX, ...mix }))
+      .refine((mix) => Object.values(mix).some((count) => count > 0), {
+        message: 'QUIZ_FORMAT_MIX must include at least one quiz',
+      }),
+    [ENV_KEYS.QUIZ_CALIBRATION_CRON]: z
+      .string()
+      .nonempty()
+      .default(BATCH_OPTIONS.QUIZ_CALIBRATION_CRON),
+    [ENV_KEYS.GOOGLE_GENERATIVE_AI_API_KEY]: z.string().nonempty().optional(),
+    [ENV_KEYS.OPENAI_API_KEY]: z.string().nonempty().optional(),
+    [ENV_KEYS.XAI_API_KEY]: z.string().nonempty().optional(),
+  })
+  .superRefine((env, ctx) => {
+    // 검색 체인에 포함된 provider의 설정만 필수로 검사
+    const requiredKeys = {
+      brave: ENV_KEYS.BRAVE_SEARCH_API_KEY,
+      searxng: ENV_KEYS.SEARXNG_BASE_URL,
+      static: ENV_KEYS.SEARCH_FIXTURE_PATH,
+    } as const;
+
+    for (const provider of env[ENV_KEYS.SEARCH_PROVIDERS]) {
+      const key = requiredKeys[provider];
+
+      if (!env[key]) {
+        ctx.addIssue({
+          code: 'custom',
+          path: [key],
+          message: `${key} is required when ${provider} search provider is enabled`,
+        });
+      }
+    }
+
+    // 작업별 failover 목록에 포함된 AI provider의 API 키만 필수로 검사
+    const requiredAiKeys = {
+      gemini: ENV_KEYS.GOOGLE_GENERATIVE_AI_API_KEY,
+      openai: ENV_KEYS.OPENAI_API_KEY,
+      grok: ENV_KEYS.XAI_API_KEY,
+    } as const;
+    const aiProviders = new Set(
+      aiTaskSchema.options.flatMap(
+        (task) =>
+          env[ENV_KEYS.AI_TASK_PROVIDERS][task] ?? env[ENV_KEYS.AI_PROVIDERS],
+      ),
+    );
+
+    for (const provider of aiProviders) {
+      const key = requiredAiKeys[provider];
+
+      if (!env[key]) {
+        ctx.addIssue({
+          code: 'custom',
+          path: [key],
+          message: `${key} is required when ${provider} AI provider is enabled`,
+        });
+      }
+    }
+
+    // 하이브리드 검색의 임베딩은 failover 없이 EMBEDDING_PROVIDER 하나만 사용
+    const embeddingProvider = env[ENV_KEYS.EMBEDDING_PROVIDER];
+    const embeddingKey = requiredAiKeys[embeddingProvider];
+
+    if (!env[embeddingKey]) {
+      ctx.addIssue({
+        code: 'custom',
+        path: [embeddingKey],
+        message: `${embeddingKey} is required when ${embeddingProvider} embedding provider is used`,
+      });
+    }
+  });
 
 export const validateEnv = (config: Record<string, unknown>) => {
   const result = envSchema.safeParse(config);
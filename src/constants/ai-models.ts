@@ -0,0 +1,61 @@
+import {
+  EmbeddingModelProvider,
+  ModelPrice,
+  ModelRateLimit,
+  ModelRegistry,
+} from 'src/ai/types/types';
+
+/** `AI_MODELS`로 덮어쓰지 않은 작업/Provider에 사용하는 기본 모델 */
+export const DEFAULT_AI_MODELS: ModelRegistry = {
+  article: {
+    gemini: 'gemini-2.5-flash',
+    openai: 'chatgpt-4o-latest',
+    grok: 'grok-4',
+  },
+  summary: {
+    gemini: 'gemini-2.5-flash',
+    openai: 'chatgpt-4o-latest',
+    grok: 'grok-4',
+  },
+  quiz: {
+    gemini: 'gemini-2.5-flash',
+    openai: 'chatgpt-4o-latest',
+    grok: 'grok-4',
+  },
+  'fact-check': {
+    gemini: 'gemini-2.5-flash',
+    openai: 'chatgpt-4o-latest',
+    grok: 'grok-4',
+  },
+};
+
+/** `EMBEDDING_PROVIDER`별 임베딩 모델 */
+export const EMBEDDING_MODELS: Record<EmbeddingModelProvider, string> = {
+  gemini: 'gemini-embedding-001',
+  openai: 'text-embedding-3-small',
+};
+
+/**
+ * 모델별 1M 토큰당 가격 (USD). `AI_PRICES`로 덮어쓸 수 있으며,
+ * 가격이 등록되지 않은 모델의 비용은 0으로 기록됩니다.
+ */
+export const DEFAULT_AI_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'chatgpt-4o-latest': { input: 5, output: 15 },
+  'grok-4': { input: 3, output: 15 },
+  'gemini-embedding-001': { input: 0.15, output: 0 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+};
+
+/**
+ * `{provider}/{modelId}`별 분당 한도. `AI_RATE_LIMITS`로 덮어쓸 수 있으며,
+ * 한도가 등록되지 않은 모델은 제한하지 않습니다.
+ */
+export const DEFAULT_AI_RATE_LIMITS: Record<string, ModelRateLimit> = {
+  'gemini/gemini-2.5-flash': { rpm: 1000, tpm: 1_000_000 },
+  'gemini/gemini-embedding-001': { rpm: 3000, tpm: 1_000_000 },
+  'openai/chatgpt-4o-latest': { rpm: 500, tpm: 30_000 },
+  'openai/text-embedding-3-small': { rpm: 3000, tpm: 1_000_000 },
+  'grok/grok-4': { rpm: 480, tpm: 2_000_000 },
+};
@@ -1,12 +1,72 @@
 export const BATCH_OPTIONS = {
   BRAVE_SEARCH_BASEURL: 'https://api.search.brave.com/res/v1/web/search',
-  USER_AGENT: 'Mozilla/5.0',
+  BRAVE_SEARCH_COUNTRY: 'KR',
+  BRAVE_SEARCH_LANG: 'ko',
+  SEARCH_CACHE_TTL_SECONDS: 86400,
+  AI_CACHE_TTL_SECONDS: 7 * 86400,
+  AI_CHARS_PER_TOKEN: 2,
+  AI_ESTIMATED_OUTPUT_TOKENS: 2000,
+  HTTP_TIMEOUT_MS: 10000,
+  HTTP_MAX_RETRIES: 2,
+  HTTP_RETRY_BASE_DELAY_MS: 500,
+  HTTP_RETRY_MAX_DELAY_MS: 10000,
+  HTTP_MAX_REDIRECTS: 5,
+  USER_AGENT: 'BatchWorkerBot/1.0',
+  CRAWL_MAX_CONCURRENCY: 8,
+  CRAWL_PER_HOST_CONCURRENCY: 2,
+  CRAWL_DEFAULT_DELAY_MS: 500,
+  MAX_CRAWL_DELAY_SECONDS: 30,
   REMOVE_SELECTORS:
-    'script, style, nav, header, footer, form, button, link, a, iframe, noscript, svg, canvas, input, select, textarea, label, aside, img',
+    'script, style, nav, header, footer, form, button, link, iframe, noscript, svg, canvas, input, select, textarea, label, aside, img',
   SELECTORS: 'article, section, p, blockquote, dt, dd, div',
   MIN_TEXT_LENGTH: 30,
+  MAX_RESPONSE_BYTES: 5 * 1024 * 1024,
+  MAX_PDF_RESPONSE_BYTES: 30 * 1024 * 1024,
+  HTML_CONTENT_TYPES: ['text/html', 'application/xhtml+xml'],
+  PDF_CONTENT_TYPES: ['application/pdf', 'application/x-pdf'],
+  TEXT_CONTENT_TYPES: ['text/plain'],
+  BINARY_CONTENT_TYPES: ['application/octet-stream', 'binary/octet-stream'],
+  MAX_PDF_PAGES: 50,
+  SNAPSHOT_DIR: 'snapshots',
   MAX_TEXT_LENGTH_FOR_BM25: 1000,
   CHUNK_SIZE: 800,
+  BM25_TOKENIZER_MODE: 'morpheme',
+  BM25_NGRAM_SIZE: 2,
+  RRF_K: 60,
+  RRF_DENSE_WEIGHT: 1,
+  RRF_BM25_WEIGHT: 1,
+  RETRIEVAL_CANDIDATE_SIZE: 30,
+  RETRIEVAL_TOP_K: 10,
+  SHINGLE_SIZE: 5,
+  MINHASH_NUM_HASHES: 64,
+  NEAR_DUPLICATE_THRESHOLD: 0.8,
+  MMR_LAMBDA: 0.7,
+  MAX_CHUNKS_PER_DOMAIN: 3,
+  FACT_CHECK_MIN_CLAIM_LENGTH: 15,
+  FACT_CHECK_LEXICAL_SUPPORT_THRESHOLD: 0.5,
+  FACT_CHECK_MAX_UNSUPPORTED_RATIO: 0.2,
+  FACT_CHECK_MAX_REGENERATIONS: 1,
+  QUIZ_TEXT_MAX_LENGTH: 255,
+  QUIZ_EXPLANATION_MAX_LENGTH: 512,
+  QUIZ_ANSWER_MAX_LENGTH: 100,
+  QUIZ_FORMAT_MIX: {
+    'multiple-choice': 2,
+    ox: 1,
+    cloze: 1,
+    'multi-select': 1,
+  },
+  QUIZ_MAX_REPAIR_ATTEMPTS: 2,
+  QUIZ_CALIBRATION_CRON: '0 4 * * *',
+  QUIZ_CALIBRATION_BATCH_SIZE: 500,
+  QUIZ_CALIBRATION_MIN_ATTEMPTS: 20,
+  QUIZ_EASY_MIN_CORRECT_RATE: 0.7,
+  QUIZ_MEDIUM_MIN_CORRECT_RATE: 0.4,
+  PROGRESS_REPORT_INTERVAL_MS: 1000,
   QUEUE_NAME: 'batch',
   JOB_NAME: 'generate',
+  REGENERATE_ARTICLE_JOB_NAME: 'regenerate-article',
+  REGENERATE_SUMMARY_JOB_NAME: 'regenerate-summary',
+  REGENERATE_QUIZZES_JOB_NAME: 'regenerate-quizzes',
+  RECALIBRATE_QUIZZES_JOB_NAME: 'recalibrate-quizzes',
+  RECALIBRATE_QUIZZES_SCHEDULER_ID: 'recalibrate-quizzes-scheduler',
 } as const;
@@ -1,6 +1,27 @@
 export const ENV_KEYS = {
   REDIS_HOST: 'REDIS_HOST',
   REDIS_PORT: 'REDIS_PORT',
+  SEARCH_PROVIDERS: 'SEARCH_PROVIDERS',
   BRAVE_SEARCH_API_KEY: 'BRAVE_SEARCH_API_KEY',
+  BRAVE_SEARCH_CACHE_TTL_SECONDS: 'BRAVE_SEARCH_CACHE_TTL_SECONDS',
+  BRAVE_SEARCH_DAILY_QUOTA: 'BRAVE_SEARCH_DAILY_QUOTA',
+  BRAVE_SEARCH_MONTHLY_QUOTA: 'BRAVE_SEARCH_MONTHLY_QUOTA',
+  SEARXNG_BASE_URL: 'SEARXNG_BASE_URL',
+  SEARCH_FIXTURE_PATH: 'SEARCH_FIXTURE_PATH',
+  CRAWLER_USER_AGENT: 'CRAWLER_USER_AGENT',
+  SNAPSHOT_MODE: 'SNAPSHOT_MODE',
+  SNAPSHOT_DIR: 'SNAPSHOT_DIR',
+  AI_PROVIDERS: 'AI_PROVIDERS',
+  AI_TASK_PROVIDERS: 'AI_TASK_PROVIDERS',
+  AI_MODELS: 'AI_MODELS',
+  EMBEDDING_PROVIDER: 'EMBEDDING_PROVIDER',
+  AI_PRICES: 'AI_PRICES',
+  AI_JOB_BUDGET_USD: 'AI_JOB_BUDGET_USD',
+  AI_CACHE_TTL_SECONDS: 'AI_CACHE_TTL_SECONDS',
+  AI_RATE_LIMITS: 'AI_RATE_LIMITS',
+  QUIZ_FORMAT_MIX: 'QUIZ_FORMAT_MIX',
+  QUIZ_CALIBRATION_CRON: 'QUIZ_CALIBRATION_CRON',
   GOOGLE_GENERATIVE_AI_API_KEY: 'GOOGLE_GENERATIVE_AI_API_KEY',
+  OPENAI_API_KEY: 'OPENAI_API_KEY',
+  XAI_API_KEY: 'XAI_API_KEY',
 } as const;
@@ -2,5 +2,25 @@ export const ERROR_MESSAGE = {
   KEYWORD_NOT_FOUND: '존재하지 않는 키워드 입니다.',
   CONTENTS_ALREADY_EXISTS: 'Contents가 이미 존재합니다.',
   BRAVE_SEARCH_API_REQUEST_FAILED: 'Brave Search API 요청 실패.',
+  BRAVE_SEARCH_DAILY_QUOTA_EXCEEDED:
+    'Brave Search API 일일 호출 한도를 초과합니다.',
+  BRAVE_SEARCH_MONTHLY_QUOTA_EXCEEDED:
+    'Brave Search API 월간 호출 한도를 초과합니다.',
+  SEARXNG_REQUEST_FAILED: 'SearXNG 검색 요청 실패.',
+  SEARCH_FIXTURE_NOT_FOUND: '검색 fixture에 해당 쿼리가 존재하지 않습니다.',
+  ALL_SEARCH_PROVIDERS_FAILED: '모든 검색 provider의 요청이 실패했습니다.',
   KEYWORD_DATE_NOT_EXISTS: '키워드의 날짜가 존재하지 않습니다.',
+  BM25_DUPLICATE_DOCUMENT_ID: '이미 색인된 문서 ID 입니다.',
+  RESPONSE_TOO_LARGE: '응답 크기가 허용된 최대 크기를 초과했습니다.',
+  TOO_MANY_REDIRECTS: '리다이렉트 횟수가 허용된 최대 횟수를 초과했습니다.',
+  UNSUPPORTED_URL_PROTOCOL: 'http/https 이외의 프로토콜은 요청할 수 없습니다.',
+  PRIVATE_NETWORK_BLOCKED: '사설/내부 네트워크 주소로의 요청은 차단됩니다.',
+  SNAPSHOT_NOT_FOUND: '저장된 스냅샷이 존재하지 않습니다.',
+  ALL_AI_PROVIDERS_FAILED: '모든 AI provider의 요청이 실패했습니다.',
+  AI_STREAM_FAILED: 'AI 스트리밍 응답 중 오류가 발생했습니다.',
+  AI_JOB_BUDGET_EXCEEDED: 'job의 AI 사용 예산을 초과했습니다.',
+  ARTICLE_NOT_FOUND: '존재하지 않는 아티클 입니다.',
+  ARTICLE_TYPE_UNKNOWN: '아티클 종류를 알 수 없어 다시 생성할 수 없습니다.',
+  INVALID_REGENERATE_TARGET:
+    '숫자 형식의 articleId 또는 keywordId와 올바른 articleType이 필요합니다.',
 } as const;
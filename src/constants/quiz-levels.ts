@@ -0,0 +1,37 @@
+import {
+  Quiz_bloomLevel,
+  Quiz_difficulty,
+  Quiz_type,
+} from 'generated/prisma/client';
+import {
+  QuizBloomLevel,
+  QuizDifficulty,
+  QuizType,
+} from 'src/batch/types/types';
+
+/** 퀴즈 형식에 대응하는 DB enum 값 */
+export const QUIZ_TYPE_COLUMNS: Record<QuizType, Quiz_type> = {
+  'multiple-choice': Quiz_type.MULTIPLE_CHOICE,
+  ox: Quiz_type.OX,
+  cloze: Quiz_type.CLOZE,
+  'multi-select': Quiz_type.MULTI_SELECT,
+};
+
+/** 퀴즈 난이도에 대응하는 DB enum 값 */
+export const QUIZ_DIFFICULTY_COLUMNS: Record<QuizDifficulty, Quiz_difficulty> =
+  {
+    easy: Quiz_difficulty.EASY,
+    medium: Quiz_difficulty.MEDIUM,
+    hard: Quiz_difficulty.HARD,
+  };
+
+/** Bloom 분류 단계에 대응하는 DB enum 값 */
+export const QUIZ_BLOOM_LEVEL_COLUMNS: Record<QuizBloomLevel, Quiz_bloomLevel> =
+  {
+    remember: Quiz_bloomLevel.REMEMBER,
+    understand: Quiz_bloomLevel.UNDERSTAND,
+    apply: Quiz_bloomLevel.APPLY,
+    analyze: Quiz_bloomLevel.ANALYZE,
+    evaluate: Quiz_bloomLevel.EVALUATE,
+    create: Quiz_bloomLevel.CREATE,
+  };
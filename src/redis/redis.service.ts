@@ -0,0 +1,18 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { EnvSchema } from 'src/config/validate-env';
+
+@Injectable()
+export class RedisService extends Redis implements OnModuleDestroy {
+  constructor(configService: ConfigService<EnvSchema, true>) {
+    super({
+      host: configService.get<string>('REDIS_HOST'),
+      port: Number(configService.get<string>('REDIS_PORT')),
+    });
+  }
+
+  async onModuleDestroy() {
+    await this.quit();
+  }
+}
@@ -0,0 +1,82 @@
+import { decodeBody, parseContentType } from './decode-body';
+
+/** "한국어 금리"의 EUC-KR 바이트 */
+const EUC_KR_TEXT = Uint8Array.from([
+  0xc7, 0xd1, 0xb1, 0xb9, 0xbe, 0xee, 0x20, 0xb1, 0xdd, 0xb8, 0xae,
+]);
+
+const concat = (...parts: (string | Uint8Array)[]) =>
+  Buffer.concat(
+    parts.map((part) =>
+      typeof part === 'string' ? Buffer.from(part, 'latin1') : part,
+    ),
+  );
+
+describe('parseContentType', () => {
+  it('MIME 타입과 정규화된 charset을 반환한다', () => {
+    expect(parseContentType('Text/HTML; Charset="CP949"')).toEqual({
+      mimeType: 'text/html',
+      charset: 'euc-kr',
+    });
+    expect(parseContentType('text/plain; charset=utf8')).toEqual({
+      mimeType: 'text/plain',
+      charset: 'utf-8',
+    });
+  });
+
+  it('헤더가 없거나 지원하지 않는 charset이면 null을 반환한다', () => {
+    expect(parseContentType(null)).toEqual({ mimeType: '', charset: null });
+    expect(parseContentType('text/html; charset=unknown-charset')).toEqual({
+      mimeType: 'text/html',
+      charset: null,
+    });
+  });
+});
+
+describe('decodeBody', () => {
+  it('BOM이 있으면 헤더보다 BOM의 인코딩을 우선한다', () => {
+    expect(
+      decodeBody(
+        concat(Uint8Array.from([0xef, 0xbb, 0xbf]), Buffer.from('한국어')),
+        'euc-kr',
+      ),
+    ).toBe('한국어');
+    expect(
+      decodeBody(
+        concat(Uint8Array.from([0xff, 0xfe]), Buffer.from('한국어', 'utf16le')),
+        null,
+      ),
+    ).toBe('한국어');
+  });
+
+  it('올바른 UTF-8 본문은 헤더가 다른 인코딩을 선언해도 UTF-8로 읽는다', () => {
+    expect(decodeBody(Buffer.from('한국어 금리'), 'euc-kr')).toBe(
+      '한국어 금리',
+    );
+  });
+
+  it('UTF-8이 아닌 본문은 헤더의 charset으로 읽는다', () => {
+    expect(decodeBody(EUC_KR_TEXT, 'euc-kr')).toBe('한국어 금리');
+  });
+
+  it('헤더가 UTF-8을 잘못 선언하면 <meta charset>으로 읽는다', () => {
+    const body = concat('<meta charset="ks_c_5601-1987"><p>', EUC_KR_TEXT);
+
+    expect(decodeBody(body, 'utf-8')).toBe(
+      '<meta charset="ks_c_5601-1987"><p>한국어 금리',
+    );
+  });
+
+  it('헤더와 <meta charset>이 모두 UTF-8이 아니면 헤더를 우선한다', () => {
+    const body = concat(
+      '<meta http-equiv="Content-Type" content="text/html; charset=iso-8859-1">',
+      EUC_KR_TEXT,
+    );
+
+    expect(decodeBody(body, 'euc-kr')).toContain('한국어 금리');
+  });
+
+  it('인코딩 정보가 없으면 EUC-KR로 읽는다', () => {
+    expect(decodeBody(EUC_KR_TEXT, null)).toBe('한국어 금리');
+  });
+});
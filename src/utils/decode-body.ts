@@ -0,0 +1,101 @@
+/** `<meta charset>`를 찾기 위해 검사하는 문서 앞부분의 바이트 수 */
+const META_SNIFF_BYTES = 4096;
+
+/** 한국어 레거시 인코딩 별칭. WHATWG의 `euc-kr` 디코더는 CP949(UHC) 전체를 지원합니다. */
+const CHARSET_ALIASES: Record<string, string> = {
+  cp949: 'euc-kr',
+  ms949: 'euc-kr',
+  uhc: 'euc-kr',
+  'x-windows-949': 'euc-kr',
+  'windows-949': 'euc-kr',
+  'ks_c_5601-1987': 'euc-kr',
+  ks_c_5601: 'euc-kr',
+  ksc5601: 'euc-kr',
+  utf8: 'utf-8',
+};
+
+/** 인코딩 정보가 없고 UTF-8로도 해석되지 않는 경우 사용할 인코딩 */
+const FALLBACK_CHARSET = 'euc-kr';
+
+export const parseContentType = (header: string | null) => {
+  const [mimeType = '', ...params] = (header ?? '').split(';');
+  const charsetParam = params
+    .map((param) => param.trim().split('='))
+    .find(([key]) => key.toLowerCase() === 'charset');
+
+  return {
+    mimeType: mimeType.trim().toLowerCase(),
+    charset: normalizeCharset(charsetParam?.[1]),
+  };
+};
+
+/**
+ * HTML/텍스트 본문 바이트를 문자열로 디코딩합니다.
+ *
+ * 인코딩은 다음 순서로 결정합니다.
+ * 1. BOM
+ * 2. 본문이 올바른 UTF-8이면 UTF-8
+ *    (레거시 인코딩의 멀티바이트 문자가 우연히 올바른 UTF-8 시퀀스가 될 가능성은 매우 낮으므로,
+ *    `charset=UTF-8`을 잘못 선언한 사이트와 그 반대의 경우 모두 이 단계에서 걸러집니다)
+ * 3. `Content-Type` 헤더와 `<meta charset>` 중 UTF-8이 아닌 인코딩 (헤더 우선)
+ * 4. 인코딩 정보가 없으면 EUC-KR(CP949)
+ */
+export const decodeBody = (body: Uint8Array, headerCharset: string | null) => {
+  const bomCharset = sniffBom(body);
+  if (bomCharset) return decode(body, bomCharset);
+
+  if (isValidUtf8(body)) return decode(body, 'utf-8');
+
+  const legacyCharset =
+    [headerCharset, sniffMetaCharset(body)].find(
+      (charset) => charset !== null && charset !== 'utf-8',
+    ) ?? FALLBACK_CHARSET;
+
+  return decode(body, legacyCharset);
+};
+
+const normalizeCharset = (charset: string | undefined | null) => {
+  if (!charset) return null;
+
+  const label = charset
+    .trim()
+    .replace(/^["']|["']$/g, '')
+    .toLowerCase();
+  const normalized = CHARSET_ALIASES[label] ?? label;
+
+  try {
+    return new TextDecoder(normalized).encoding;
+  } catch {
+    // TextDecoder가 지원하지 않는 인코딩
+    return null;
+  }
+};
+
+const sniffBom = (body: Uint8Array) => {
+  if (body[0] === 0xef && body[1] === 0xbb && body[2] === 0xbf) return 'utf-8';
+  if (body[0] === 0xff && body[1] === 0xfe) return 'utf-16le';
+  if (body[0] === 0xfe && body[1] === 0xff) return 'utf-16be';
+  return null;
+};
+
+const sniffMetaCharset = (body: Uint8Array) => {
+  const head = Buffer.from(body.subarray(0, META_SNIFF_BYTES)).toString(
+    'latin1',
+  );
+  const match = /<meta[^>]+charset\s*=\s*["']?\s*([\w:.-]+)/i.exec(head);
+
+  return normalizeCharset(match?.[1]);
+};
+
+const isValidUtf8 = (body: Uint8Array) => {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(body);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const decode = (body: Uint8Array, charset: string) => {
+  return new TextDecoder(charset).decode(body);
+};
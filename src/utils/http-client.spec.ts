@@ -0,0 +1,229 @@
+import { lookup } from 'dns';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { ERROR_MESSAGE } from 'src/constants/error-message';
+import { httpRequest, isPrivateAddress } from './http-client';
+
+jest.mock('dns', () => ({
+  ...jest.requireActual<typeof import('dns')>('dns'),
+  lookup: jest.fn(),
+}));
+
+const lookupMock = lookup as unknown as jest.Mock;
+
+const PUBLIC_URL = 'http://93.184.216.34/page';
+
+const createResponse = (status: number, headers: Record<string, string> = {}) =>
+  new Response(
+    status === 204 || (status >= 300 && status < 400) ? null : 'ok',
+    {
+      status,
+      headers,
+    },
+  );
+
+describe('isPrivateAddress', () => {
+  it('사설/루프백/링크로컬 주소를 차단 대상으로 판별한다', () => {
+    ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.0.1', '169.254.169.254']
+      .concat(['::1', 'fd00::1', 'fe80::1', '::ffff:10.0.0.1'])
+      .forEach((address) => expect(isPrivateAddress(address)).toBe(true));
+  });
+
+  it('공인 주소는 허용한다', () => {
+    ['93.184.216.34', '8.8.8.8', '2606:4700::1111'].forEach((address) =>
+      expect(isPrivateAddress(address)).toBe(false),
+    );
+  });
+});
+
+describe('httpRequest', () => {
+  let fetchMock: jest.SpiedFunction<typeof fetch>;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('사설 주소로의 요청은 fetch 전에 차단한다', async () => {
+    await expect(httpRequest('http://127.0.0.1/admin')).rejects.toThrow(
+      ERROR_MESSAGE.PRIVATE_NETWORK_BLOCKED,
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('5xx 응답은 Retry-After만큼 기다린 뒤 재시도한다', async () => {
+    fetchMock
+      .mockResolvedValueOnce(createResponse(503, { 'retry-after': '0' }))
+      .mockResolvedValueOnce(createResponse(200));
+
+    const response = await httpRequest(PUBLIC_URL);
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('재시도 횟수를 모두 사용하면 마지막 응답을 반환한다', async () => {
+    fetchMock.mockImplementation(() =>
+      Promise.resolve(createResponse(429, { 'retry-after': '0' })),
+    );
+
+    const response = await httpRequest(PUBLIC_URL, { maxRetries: 1 });
+
+    expect(response.status).toBe(429);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('4xx 응답은 재시도하지 않는다', async () => {
+    fetchMock.mockResolvedValueOnce(createResponse(404));
+
+    const response = await httpRequest(PUBLIC_URL);
+
+    expect(response.status).toBe(404);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('리다이렉트 횟수가 최대치를 넘으면 예외를 던진다', async () => {
+    fetchMock.mockImplementation(() =>
+      Promise.resolve(createResponse(302, { location: '/next' })),
+    );
+
+    await expect(httpRequest(PUBLIC_URL, { maxRedirects: 2 })).rejects.toThrow(
+      ERROR_MESSAGE.TOO_MANY_REDIRECTS,
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('사설 주소로의 리다이렉트를 차단한다', async () => {
+    fetchMock.mockResolvedValueOnce(
+      createResponse(301, { location: 'http://169.254.169.254/latest' }),
+    );
+
+    await expect(httpRequest(PUBLIC_URL)).rejects.toThrow(
+      ERROR_MESSAGE.PRIVATE_NETWORK_BLOCKED,
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('다른 origin으로 리다이렉트하면 인증 헤더를 제거한다', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        createResponse(302, { location: 'http://93.184.216.35/next' }),
+      )
+      .mockResolvedValueOnce(createResponse(200));
+
+    await httpRequest(PUBLIC_URL, {
+      headers: {
+        Accept: 'text/html',
+        Authorization: 'Bearer secret',
+        Cookie: 'session=secret',
+        'X-Subscription-Token': 'secret',
+      },
+    });
+
+    const headers = new Headers(fetchMock.mock.calls[1][1]?.headers);
+    expect(headers.get('accept')).toBe('text/html');
+    expect(headers.get('authorization')).toBeNull();
+    expect(headers.get('cookie')).toBeNull();
+    expect(headers.get('x-subscription-token')).toBeNull();
+  });
+
+  it('같은 origin으로의 리다이렉트는 헤더를 유지한다', async () => {
+    fetchMock
+      .mockResolvedValueOnce(createResponse(302, { location: '/next' }))
+      .mockResolvedValueOnce(createResponse(200));
+
+    await httpRequest(PUBLIC_URL, {
+      headers: { 'X-Subscription-Token': 'secret' },
+    });
+
+    const headers = new Headers(fetchMock.mock.calls[1][1]?.headers);
+    expect(headers.get('x-subscription-token')).toBe('secret');
+  });
+
+  it('연결 시점의 DNS 응답이 사설 주소이면 연결하지 않는다', async () => {
+    const onRequest = jest.fn();
+    const server = createServer((request, response) => {
+      onRequest();
+      response.end('internal');
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+
+    lookupMock.mockImplementation(
+      (
+        hostname: string,
+        options: unknown,
+        callback: (error: null, addresses: object[]) => void,
+      ) => callback(null, [{ address: '127.0.0.1', family: 4 }]),
+    );
+
+    try {
+      await expect(
+        httpRequest(`http://rebinding.test:${port}/`, { maxRetries: 0 }),
+      ).rejects.toThrow(ERROR_MESSAGE.PRIVATE_NETWORK_BLOCKED);
+      expect(onRequest).not.toHaveBeenCalled();
+    } finally {
+      server.close();
+    }
+  });
+
+  describe('타임아웃', () => {
+    const listen = async (
+      handler: Parameters<typeof createServer>[1],
+    ): Promise<{ server: Server; url: string }> => {
+      const server = createServer(handler);
+      await new Promise<void>((resolve) =>
+        server.listen(0, '127.0.0.1', resolve),
+      );
+      const { port } = server.address() as AddressInfo;
+
+      return { server, url: `http://127.0.0.1:${port}/` };
+    };
+
+    it('헤더를 받은 뒤에는 제한 시간이 지나도 본문을 끝까지 읽는다', async () => {
+      const { server, url } = await listen((request, response) => {
+        response.writeHead(200);
+        response.write('first ');
+        setTimeout(() => response.end('last'), 300);
+      });
+
+      try {
+        const response = await httpRequest(url, {
+          timeoutMs: 100,
+          maxRetries: 0,
+          blockPrivateNetwork: false,
+        });
+
+        await expect(response.text()).resolves.toBe('first last');
+      } finally {
+        server.close();
+      }
+    });
+
+    it('제한 시간 안에 헤더를 받지 못하면 TimeoutError를 던진다', async () => {
+      const timers: NodeJS.Timeout[] = [];
+      const { server, url } = await listen((request, response) => {
+        timers.push(setTimeout(() => response.end('late'), 300));
+      });
+
+      try {
+        await expect(
+          httpRequest(url, {
+            timeoutMs: 100,
+            maxRetries: 0,
+            blockPrivateNetwork: false,
+          }),
+        ).rejects.toMatchObject({ name: 'TimeoutError' });
+      } finally {
+        timers.forEach(clearTimeout);
+        server.closeAllConnections();
+        server.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,344 @@
+import { Logger } from '@nestjs/common';
+import { lookup } from 'dns';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { BATCH_OPTIONS } from 'src/constants/batch-options';
+import { ERROR_MESSAGE } from 'src/constants/error-message';
+import { Agent } from 'undici';
+
+export type HttpRequestOptions = Omit<RequestInit, 'redirect' | 'signal'> & {
+  /**
+   * 시도 1회당 응답 헤더 수신까지의 제한 시간 (ms)
+   * 헤더를 받은 뒤 본문을 읽는 시간은 포함하지 않으므로, 큰 PDF도 이 시간 안에 다 받을 필요가 없습니다.
+   * (본문은 undici의 `bodyTimeout`에 따라 청크 사이가 오래 멈출 때만 중단됨)
+   */
+  timeoutMs?: number;
+  /** 5xx/429 응답 또는 네트워크 오류 시 재시도 횟수 */
+  maxRetries?: number;
+  /** 따라갈 수 있는 최대 리다이렉트 횟수 */
+  maxRedirects?: number;
+  /** 사설/내부 네트워크 주소로의 요청 차단 여부 */
+  blockPrivateNetwork?: boolean;
+};
+
+const logger = new Logger('HttpClient');
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const RETRYABLE_METHODS = new Set(['GET', 'HEAD']);
+
+/** 다른 origin으로 리다이렉트될 때 전달하지 않는 인증 헤더 */
+const CREDENTIAL_HEADERS = [
+  'authorization',
+  'cookie',
+  'proxy-authorization',
+  'x-subscription-token',
+];
+
+/** SSRF 방지를 위해 차단하는 사설/루프백/링크로컬/예약 대역 */
+const PRIVATE_NETWORKS = new BlockList();
+(
+  [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4],
+  ] as const
+).forEach(([network, prefix]) =>
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4'),
+);
+(
+  [
+    ['::', 128],
+    ['::1', 128],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8],
+  ] as const
+).forEach(([network, prefix]) =>
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6'),
+);
+
+/**
+ * 사설/내부 네트워크 주소인지 확인합니다.
+ * IPv4-mapped IPv6 주소(`::ffff:10.0.0.1`)는 IPv4 주소로 변환해 검사합니다.
+ */
+export const isPrivateAddress = (address: string): boolean => {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return PRIVATE_NETWORKS.check(mapped[1], 'ipv4');
+
+  const version = isIP(address);
+  if (version === 0) return false;
+
+  return PRIVATE_NETWORKS.check(address, version === 4 ? 'ipv4' : 'ipv6');
+};
+
+const createPrivateNetworkError = (host: string) =>
+  new Error(`${ERROR_MESSAGE.PRIVATE_NETWORK_BLOCKED} (${host})`);
+
+/**
+ * DNS로 해석한 주소 중 차단 대역이 있으면 연결을 거부하는 lookup 함수입니다.
+ * 검사한 주소로 그대로 연결하므로, 검사 후 다른 주소를 응답하는 DNS rebinding을 막습니다.
+ */
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+
+    if (addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(createPrivateNetworkError(hostname), []);
+    }
+
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/** 연결 시점에 대상 주소를 검사하는 dispatcher */
+const publicNetworkAgent = new Agent({
+  connect: { lookup: lookupPublicAddress },
+});
+
+/**
+ * 요청 대상 URL의 프로토콜과 IP 주소 호스트를 검사합니다.
+ * 호스트 이름은 연결 시점에 `publicNetworkAgent`의 lookup에서 검사합니다.
+ */
+const assertRequestable = (url: URL, blockPrivateNetwork: boolean) => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`${ERROR_MESSAGE.UNSUPPORTED_URL_PROTOCOL} (${url.href})`);
+  }
+
+  if (!blockPrivateNetwork) return;
+
+  // URL의 IPv6 호스트는 대괄호로 감싸져 있음
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  if (isIP(hostname) && isPrivateAddress(hostname)) {
+    throw createPrivateNetworkError(url.host);
+  }
+};
+
+/**
+ * fetch는 연결 단계의 오류를 `TypeError: fetch failed`로 감싸므로,
+ * lookup에서 차단한 경우 원래 오류를 꺼내 재시도 대상에서 제외합니다.
+ */
+const unwrapBlockedError = (error: unknown): unknown => {
+  const cause =
+    typeof error === 'object' && error !== null && 'cause' in error
+      ? error.cause
+      : undefined;
+
+  if (
+    cause instanceof Error &&
+    cause.message.startsWith(ERROR_MESSAGE.PRIVATE_NETWORK_BLOCKED)
+  ) {
+    return cause;
+  }
+
+  return error;
+};
+
+/** 인증 헤더를 제외한 요청 헤더 */
+const withoutCredentials = (headers: HeadersInit | undefined): Headers => {
+  const result = new Headers(headers);
+  CREDENTIAL_HEADERS.forEach((header) => result.delete(header));
+  return result;
+};
+
+/**
+ * `Retry-After` 헤더(초 또는 HTTP 날짜)를 대기 시간(ms)으로 변환합니다.
+ */
+const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return null;
+
+  return Math.max(0, date - Date.now());
+};
+
+/** Full jitter 방식의 지수 백오프 대기 시간 (ms) */
+const getBackoffDelay = (attempt: number): number =>
+  Math.random() *
+  Math.min(
+    BATCH_OPTIONS.HTTP_RETRY_MAX_DELAY_MS,
+    BATCH_OPTIONS.HTTP_RETRY_BASE_DELAY_MS * 2 ** attempt,
+  );
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * 응답 헤더를 받을 때까지만 제한 시간을 적용하여 fetch 합니다.
+ * `AbortSignal.timeout`은 본문을 읽는 동안에도 남아 있으므로, 헤더를 받으면 타이머를 해제하는 signal을 사용합니다.
+ */
+const fetchWithHeadersTimeout = async (
+  url: URL,
+  init: RequestInit,
+  timeoutMs: number,
+): Promise<Response> => {
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () =>
+      controller.abort(
+        new DOMException(
+          `Response headers not received within ${timeoutMs}ms`,
+          'TimeoutError',
+        ),
+      ),
+    timeoutMs,
+  );
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * 리다이렉트를 직접 처리하며 요청을 1회 수행합니다.
+ * 매 hop마다 대상 주소를 검사하여, 리다이렉트를 통한 내부망 접근도 차단합니다.
+ * 다른 origin으로 리다이렉트되면 인증 헤더를 제거합니다.
+ */
+const requestOnce = async (
+  url: URL,
+  init: RequestInit,
+  timeoutMs: number,
+  maxRedirects: number,
+  blockPrivateNetwork: boolean,
+): Promise<{ response: Response; redirects: number }> => {
+  let currentUrl = url;
+  let currentInit = init;
+
+  for (let redirects = 0; ; redirects++) {
+    assertRequestable(currentUrl, blockPrivateNetwork);
+
+    // Node.js의 fetch는 undici의 dispatcher 옵션을 지원하지만 DOM 타입에는 없음
+    const requestInit: RequestInit & { dispatcher?: Agent } = {
+      ...currentInit,
+      redirect: 'manual',
+      dispatcher: blockPrivateNetwork ? publicNetworkAgent : undefined,
+    };
+    const response = await fetchWithHeadersTimeout(
+      currentUrl,
+      requestInit,
+      timeoutMs,
+    ).catch((error: unknown) => {
+      throw unwrapBlockedError(error);
+    });
+
+    const location = response.headers.get('location');
+    if (!REDIRECT_STATUSES.has(response.status) || !location) {
+      return { response, redirects };
+    }
+
+    await response.body?.cancel();
+
+    if (redirects >= maxRedirects) {
+      throw new Error(`${ERROR_MESSAGE.TOO_MANY_REDIRECTS} (${url.href})`);
+    }
+
+    const nextUrl = new URL(location, currentUrl);
+    if (nextUrl.origin !== currentUrl.origin) {
+      currentInit = {
+        ...currentInit,
+        headers: withoutCredentials(currentInit.headers),
+      };
+    }
+    currentUrl = nextUrl;
+
+    // 303 또는 POST에 대한 301/302는 본문 없이 GET으로 변경 (fetch 표준 동작)
+    if (
+      response.status === 303 ||
+      ([301, 302].includes(response.status) && currentInit.method === 'POST')
+    ) {
+      currentInit = { ...currentInit, method: 'GET', body: undefined };
+    }
+  }
+};
+
+/**
+ * 타임아웃, 재시도, 리다이렉트 제한, SSRF 차단을 적용한 HTTP 요청 함수입니다.
+ *
+ * @remarks
+ * - 타임아웃은 시도마다 응답 헤더를 받을 때까지 적용되며, 초과 시 `TimeoutError`가 발생합니다.
+ * - GET/HEAD 요청은 5xx/429 응답이나 네트워크 오류 시 지수 백오프(full jitter)로 재시도합니다.
+ *   `Retry-After` 헤더가 있으면 그 시간만큼 기다리며, 최대 대기 시간을 넘으면 재시도하지 않고 응답을 반환합니다.
+ * - 각 시도의 소요 시간은 구조화된 로그로 남깁니다.
+ */
+export const httpRequest = async (
+  url: string | URL,
+  {
+    timeoutMs = BATCH_OPTIONS.HTTP_TIMEOUT_MS,
+    maxRetries = BATCH_OPTIONS.HTTP_MAX_RETRIES,
+    maxRedirects = BATCH_OPTIONS.HTTP_MAX_REDIRECTS,
+    blockPrivateNetwork = true,
+    ...init
+  }: HttpRequestOptions = {},
+): Promise<Response> => {
+  const targetUrl = new URL(url);
+  const method = (init.method ?? 'GET').toUpperCase();
+  const retryable = RETRYABLE_METHODS.has(method);
+
+  for (let attempt = 0; ; attempt++) {
+    const startedAt = performance.now();
+    const canRetry = retryable && attempt < maxRetries;
+
+    try {
+      const { response, redirects } = await requestOnce(
+        targetUrl,
+        init,
+        timeoutMs,
+        maxRedirects,
+        blockPrivateNetwork,
+      );
+
+      logger.debug({
+        method,
+        url: targetUrl.href,
+        finalUrl: response.url || targetUrl.href,
+        status: response.status,
+        attempt,
+        redirects,
+        durationMs: Math.round(performance.now() - startedAt),
+      });
+
+      if (!canRetry || (response.status !== 429 && response.status < 500)) {
+        return response;
+      }
+
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      if (
+        retryAfter !== null &&
+        retryAfter > BATCH_OPTIONS.HTTP_RETRY_MAX_DELAY_MS
+      ) {
+        return response;
+      }
+
+      await response.body?.cancel();
+      await sleep(retryAfter ?? getBackoffDelay(attempt));
+    } catch (error) {
+      const durationMs = Math.round(performance.now() - startedAt);
+      const errorName = error instanceof Error ? error.name : 'Error';
+
+      logger.debug({
+        method,
+        url: targetUrl.href,
+        error: errorName,
+        attempt,
+        durationMs,
+      });
+
+      // 네트워크 오류(fetch failed)만 재시도하고, 타임아웃이나 차단된 요청은 그대로 던짐
+      if (!canRetry || !(error instanceof TypeError)) throw error;
+
+      await sleep(getBackoffDelay(attempt));
+    }
+  }
+};
@@ -0,0 +1,62 @@
+import { ERROR_MESSAGE } from 'src/constants/error-message';
+import { readBodyWithLimit } from './read-body-with-limit';
+
+/** 청크를 하나씩 내보내고, 읽기가 취소되었는지 기록하는 응답을 만듭니다. */
+const createStreamingResponse = (chunks: Uint8Array[], headers = {}) => {
+  const state = { pulled: 0, cancelled: false };
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const chunk = chunks[state.pulled++];
+      if (chunk) controller.enqueue(chunk);
+      else controller.close();
+    },
+    cancel() {
+      state.cancelled = true;
+    },
+  });
+
+  return { response: new Response(body, { headers }), state };
+};
+
+describe('readBodyWithLimit', () => {
+  it('한도 이내의 본문은 모두 읽는다', async () => {
+    const { response } = createStreamingResponse([
+      new Uint8Array(4).fill(1),
+      new Uint8Array(6).fill(2),
+    ]);
+
+    const body = await readBodyWithLimit(response, 10);
+
+    expect(body).toHaveLength(10);
+    expect(Array.from(body.subarray(3, 5))).toEqual([1, 2]);
+  });
+
+  it('Content-Length가 한도를 넘으면 본문을 읽지 않고 예외를 던진다', async () => {
+    const { response, state } = createStreamingResponse([new Uint8Array(4)], {
+      'content-length': '11',
+    });
+
+    await expect(readBodyWithLimit(response, 10)).rejects.toThrow(
+      ERROR_MESSAGE.RESPONSE_TOO_LARGE,
+    );
+    expect(state.cancelled).toBe(true);
+  });
+
+  it('Content-Length 없이 스트리밍 중 한도를 넘으면 읽기를 중단한다', async () => {
+    const { response, state } = createStreamingResponse(
+      Array.from({ length: 10 }, () => new Uint8Array(6)),
+    );
+
+    await expect(readBodyWithLimit(response, 10)).rejects.toThrow(
+      ERROR_MESSAGE.RESPONSE_TOO_LARGE,
+    );
+    expect(state.cancelled).toBe(true);
+    expect(state.pulled).toBeLessThan(10);
+  });
+
+  it('본문이 없으면 빈 배열을 반환한다', async () => {
+    await expect(
+      readBodyWithLimit(new Response(null), 10),
+    ).resolves.toHaveLength(0);
+  });
+});
@@ -0,0 +1,37 @@
+import { ERROR_MESSAGE } from 'src/constants/error-message';
+
+/**
+ * 응답 본문을 최대 `maxBytes`까지만 읽습니다.
+ * `Content-Length`가 한도를 넘거나, 스트리밍 중 한도를 넘으면 읽기를 중단하고 예외를 던집니다.
+ */
+export const readBodyWithLimit = async (
+  response: Response,
+  maxBytes: number,
+): Promise<Uint8Array> => {
+  const contentLength = Number(response.headers.get('content-length'));
+  if (contentLength > maxBytes) {
+    await response.body?.cancel();
+    throw new Error(ERROR_MESSAGE.RESPONSE_TOO_LARGE);
+  }
+
+  if (!response.body) return new Uint8Array();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let receivedBytes = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    receivedBytes += value.byteLength;
+    if (receivedBytes > maxBytes) {
+      await reader.cancel();
+      throw new Error(ERROR_MESSAGE.RESPONSE_TOO_LARGE);
+    }
+
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks);
+};
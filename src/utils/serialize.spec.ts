@@ -0,0 +1,21 @@
+import { deserialize, serialize } from './serialize';
+
+describe('serialize', () => {
+  it('Date와 bigint를 포함한 값을 원래 타입으로 복원한다', () => {
+    const value = {
+      id: 12345678901234567890n,
+      crawledAt: new Date('2025-01-02T03:04:05.000Z'),
+      nested: [{ publishedAt: null, page: 3 }],
+    };
+
+    const restored = deserialize<typeof value>(serialize(value));
+
+    expect(restored).toEqual(value);
+    expect(restored.crawledAt).toBeInstanceOf(Date);
+    expect(typeof restored.id).toBe('bigint');
+  });
+
+  it('undefined는 null로 저장한다', () => {
+    expect(deserialize(serialize(undefined))).toBeNull();
+  });
+});
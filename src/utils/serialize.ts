@@ -0,0 +1,28 @@
+/**
+ * `Date`와 `bigint`를 포함한 값을 JSON 문자열로 변환합니다.
+ * 두 타입은 `{ $date }`, `{ $bigint }` 형태로 표시하여 {@link deserialize}에서 복원합니다.
+ */
+export const serialize = (value: unknown): string =>
+  JSON.stringify(value ?? null, function (this: unknown, key, data: unknown) {
+    // Date는 replacer 호출 전에 toJSON으로 문자열이 되므로 원본 값을 확인
+    const raw = (this as Record<string, unknown>)[key];
+
+    if (raw instanceof Date) return { $date: raw.toISOString() };
+    if (typeof data === 'bigint') return { $bigint: data.toString() };
+
+    return data;
+  });
+
+export const deserialize = <T>(text: string): T =>
+  JSON.parse(text, (_, data: unknown) => {
+    if (data && typeof data === 'object') {
+      if ('$date' in data && typeof data.$date === 'string') {
+        return new Date(data.$date);
+      }
+      if ('$bigint' in data && typeof data.$bigint === 'string') {
+        return BigInt(data.$bigint);
+      }
+    }
+
+    return data;
+  }) as T;